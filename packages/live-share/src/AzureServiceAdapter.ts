@@ -0,0 +1,163 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    AzureClient,
+    AzureConnectionConfig,
+    AzureContainerServices,
+    AzureRemoteConnectionConfig,
+    ITelemetryBaseLogger,
+    IUser,
+} from "@fluidframework/azure-client";
+import { ContainerSchema, IFluidContainer } from "@fluidframework/fluid-static";
+import { InsecureTokenProvider } from "@fluidframework/test-client-utils";
+import { LiveShareTokenProvider } from "./internals";
+import { ILiveShareHost, ILiveShareServiceAdapter } from "./interfaces";
+
+/**
+ * @hidden
+ * Map v0.59 orderer endpoints to new v1.0 service endpoints
+ */
+const ordererEndpointMap = new Map<string, string>()
+    .set(
+        "https://alfred.westus2.fluidrelay.azure.com",
+        "https://us.fluidrelay.azure.com"
+    )
+    .set(
+        "https://alfred.westeurope.fluidrelay.azure.com",
+        "https://eu.fluidrelay.azure.com"
+    )
+    .set(
+        "https://alfred.southeastasia.fluidrelay.azure.com",
+        "https://global.fluidrelay.azure.com"
+    );
+
+/**
+ * Options used to configure the `AzureServiceAdapter` class.
+ */
+export interface IAzureServiceAdapterOptions {
+    /**
+     * Optional. Configuration to use when connecting to a custom Azure Fluid Relay instance.
+     */
+    readonly connection?: AzureConnectionConfig;
+
+    /**
+     * Optional. A logger instance to receive diagnostic messages.
+     */
+    readonly logger?: ITelemetryBaseLogger;
+}
+
+/**
+ * Service adapter that creates and loads containers using Azure Fluid Relay.
+ *
+ * @remarks
+ * This is the default adapter used by `LiveShareClient`. When a `connection` isn't configured
+ * the Fluid tenant to connect to is requested from the host.
+ */
+export class AzureServiceAdapter
+    implements ILiveShareServiceAdapter<AzureContainerServices>
+{
+    private readonly _host: ILiveShareHost;
+    private readonly _options: IAzureServiceAdapterOptions;
+    private _client?: Promise<AzureClient>;
+
+    /**
+     * Creates a new `AzureServiceAdapter` instance.
+     * @param host Host for the current Live Share session.
+     * @param options Optional. Configuration options for the adapter.
+     */
+    constructor(host: ILiveShareHost, options?: IAzureServiceAdapterOptions) {
+        this._host = host;
+        this._options = Object.assign(
+            {} as IAzureServiceAdapterOptions,
+            options
+        );
+    }
+
+    /**
+     * If true the adapter is configured to use a local test server.
+     */
+    public get isLocal(): boolean {
+        return this._options.connection?.type == "local";
+    }
+
+    public async createContainer(containerSchema: ContainerSchema): Promise<{
+        container: IFluidContainer;
+        services: AzureContainerServices;
+    }> {
+        const client = await this.getClient();
+        return await client.createContainer(containerSchema);
+    }
+
+    public async getContainer(
+        containerId: string,
+        containerSchema: ContainerSchema
+    ): Promise<{
+        container: IFluidContainer;
+        services: AzureContainerServices;
+    }> {
+        const client = await this.getClient();
+        return await client.getContainer(containerId, containerSchema);
+    }
+
+    private getClient(): Promise<AzureClient> {
+        if (!this._client) {
+            this._client = this.createClient();
+
+            // Allow failed attempts to be retried
+            this._client.catch(() => (this._client = undefined));
+        }
+
+        return this._client;
+    }
+
+    private async createClient(): Promise<AzureClient> {
+        // Initialize FRS connection config
+        let config: AzureConnectionConfig | undefined =
+            this._options.connection;
+        if (!config) {
+            const frsTenantInfo = await this._host.getFluidTenantInfo();
+
+            // Compute endpoint
+            let endpoint = frsTenantInfo.serviceEndpoint;
+            if (!endpoint) {
+                if (ordererEndpointMap.has(frsTenantInfo.ordererEndpoint)) {
+                    endpoint = ordererEndpointMap.get(
+                        frsTenantInfo.ordererEndpoint
+                    );
+                } else {
+                    throw new Error(
+                        `AzureServiceAdapter: Unable to find fluid endpoint for: ${frsTenantInfo.ordererEndpoint}`
+                    );
+                }
+            }
+
+            // Is this a local config?
+            if (frsTenantInfo.tenantId == "local") {
+                config = {
+                    type: "local",
+                    endpoint: endpoint!,
+                    tokenProvider: new InsecureTokenProvider("", {
+                        id: "123",
+                        name: "Test User",
+                    } as IUser),
+                };
+            } else {
+                config = {
+                    type: "remote",
+                    tenantId: frsTenantInfo.tenantId,
+                    endpoint: endpoint!,
+                    tokenProvider: new LiveShareTokenProvider(this._host),
+                } as AzureRemoteConnectionConfig;
+            }
+        }
+
+        // Create FRS client
+        return new AzureClient({
+            connection: config,
+            logger: this._options.logger,
+        });
+    }
+}
@@ -0,0 +1,259 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    IEncryptedSignal,
+    ILiveShareHost,
+    ISessionKey,
+    ISignalEncryptor,
+} from "./interfaces";
+
+/**
+ * @hidden
+ * Maximum number of unknown key ID's remembered.
+ */
+const MAX_UNKNOWN_KEYS = 100;
+
+/**
+ * Signal encryptor that uses AES-GCM with session keys provided by the Live Share Host.
+ *
+ * @remarks
+ * The current key is periodically re-fetched from the host so that hosts can rotate keys.
+ * Only signals encrypted with the current key or the key it replaced are decrypted. Signals
+ * with an unknown key cause the current key to be re-fetched, in case the sender rotated first,
+ * and key ID's that still aren't current are remembered and rejected without asking the host.
+ * The senders client ID is included as additional authenticated data so that signals can't be
+ * replayed by other clients.
+ */
+export class HostSignalEncryptor implements ISignalEncryptor {
+    private readonly _host: ILiveShareHost;
+    private readonly _keys = new Map<string, Promise<CryptoKey>>();
+    private readonly _unknownKeys = new Set<string>();
+    private _currentKey?: Promise<ICurrentKey>;
+    private _currentKeyId?: string;
+    private _previousKeyId?: string;
+    private _lastKeyFetch = 0;
+
+    /**
+     * Number of milliseconds before the current key is re-fetched from the host. Defaults to
+     * 60 seconds.
+     */
+    public static keyRefreshInterval = 60000;
+
+    /**
+     * Minimum number of milliseconds between re-fetching the current key from the host when
+     * a signal with an unknown key is received. Defaults to 1 second.
+     */
+    public static unknownKeyRefreshInterval = 1000;
+
+    /**
+     * Creates a new `HostSignalEncryptor` instance.
+     * @param host The current Live Share Host instance. The host must implement `getSessionKey()`.
+     */
+    public constructor(host: ILiveShareHost) {
+        if (typeof host?.getSessionKey != "function") {
+            throw new Error(
+                `HostSignalEncryptor: host doesn't support session keys.`
+            );
+        }
+
+        this._host = host;
+    }
+
+    /**
+     * Encrypts a serialized signal using the current session key.
+     * @param plaintext Serialized signal to encrypt.
+     * @param senderId Client ID of the local client sending the signal.
+     * @returns The encrypted signal.
+     */
+    public async encrypt(
+        plaintext: string,
+        senderId: string
+    ): Promise<IEncryptedSignal> {
+        const { keyId, key } = await this.getCurrentKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt(
+            {
+                name: "AES-GCM",
+                iv,
+                additionalData: new TextEncoder().encode(senderId),
+            },
+            key,
+            new TextEncoder().encode(plaintext)
+        );
+
+        return {
+            keyId,
+            iv: toBase64(iv),
+            data: toBase64(new Uint8Array(data)),
+        };
+    }
+
+    /**
+     * Decrypts a signal using the session key it was encrypted with.
+     * @param signal Encrypted signal to decrypt.
+     * @param senderId Client ID of the client that sent the signal.
+     * @returns The serialized signal.
+     */
+    public async decrypt(
+        signal: IEncryptedSignal,
+        senderId: string
+    ): Promise<string> {
+        const key = await this.getKey(signal?.keyId);
+        const data = await crypto.subtle.decrypt(
+            {
+                name: "AES-GCM",
+                iv: fromBase64(signal.iv),
+                additionalData: new TextEncoder().encode(senderId),
+            },
+            key,
+            fromBase64(signal.data)
+        );
+
+        return new TextDecoder().decode(data);
+    }
+
+    /**
+     * Forces the current key to be re-fetched from the host before the next signal is sent.
+     */
+    public refreshKey(): void {
+        this._currentKey = undefined;
+    }
+
+    private getCurrentKey(): Promise<ICurrentKey> {
+        const now = new Date().getTime();
+        if (
+            !this._currentKey ||
+            now - this._lastKeyFetch >= HostSignalEncryptor.keyRefreshInterval
+        ) {
+            this._lastKeyFetch = now;
+            this._currentKey = this._host.getSessionKey!().then(
+                async (sessionKey) => {
+                    if (
+                        sessionKey?.keyId != this._currentKeyId ||
+                        !this._keys.has(sessionKey.keyId)
+                    ) {
+                        this.keyRotated(sessionKey);
+                    }
+
+                    return {
+                        keyId: sessionKey.keyId,
+                        key: await this._keys.get(sessionKey.keyId)!,
+                    };
+                }
+            );
+            this._currentKey.catch(() => (this._currentKey = undefined));
+        }
+
+        return this._currentKey;
+    }
+
+    private keyRotated(sessionKey: ISessionKey): void {
+        // Only keep the current and previous keys
+        if (
+            this._currentKeyId !== undefined &&
+            this._currentKeyId != sessionKey.keyId
+        ) {
+            this._previousKeyId = this._currentKeyId;
+        }
+        this._currentKeyId = sessionKey.keyId;
+        this._unknownKeys.delete(sessionKey.keyId);
+        this._keys.forEach((key, keyId) => {
+            if (keyId != this._previousKeyId) {
+                this._keys.delete(keyId);
+            }
+        });
+
+        const key = importKey(sessionKey);
+        key.catch(() => this._keys.delete(sessionKey.keyId));
+        this._keys.set(sessionKey.keyId, key);
+    }
+
+    private async getKey(keyId: string): Promise<CryptoKey> {
+        if (typeof keyId != "string" || this._unknownKeys.has(keyId)) {
+            throw new Error(
+                `HostSignalEncryptor: session key '${keyId}' not found.`
+            );
+        }
+
+        // The sender may have rotated to a new key first
+        const current = await this.getCurrentKey();
+        if (current.keyId != keyId && !this._keys.has(keyId)) {
+            const now = new Date().getTime();
+            if (
+                now - this._lastKeyFetch <
+                HostSignalEncryptor.unknownKeyRefreshInterval
+            ) {
+                throw new Error(
+                    `HostSignalEncryptor: session key '${keyId}' not found.`
+                );
+            }
+
+            this.refreshKey();
+            await this.getCurrentKey();
+        }
+
+        const key = this._keys.get(keyId);
+        if (!key) {
+            this._unknownKeys.add(keyId);
+            if (this._unknownKeys.size > MAX_UNKNOWN_KEYS) {
+                // Forget the oldest unknown key
+                const oldest = this._unknownKeys.values().next().value;
+                this._unknownKeys.delete(oldest);
+            }
+
+            throw new Error(
+                `HostSignalEncryptor: session key '${keyId}' not found.`
+            );
+        }
+
+        return key;
+    }
+}
+
+/**
+ * @hidden
+ */
+interface ICurrentKey {
+    keyId: string;
+    key: CryptoKey;
+}
+
+/**
+ * @hidden
+ */
+function importKey(sessionKey: ISessionKey): Promise<CryptoKey> {
+    return Promise.resolve(
+        crypto.subtle.importKey(
+            "raw",
+            fromBase64(sessionKey.key),
+            { name: "AES-GCM" },
+            false,
+            ["encrypt", "decrypt"]
+        )
+    );
+}
+
+/**
+ * @hidden
+ */
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+    return btoa(binary);
+}
+
+/**
+ * @hidden
+ */
+function fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    return bytes;
+}
@@ -5,6 +5,7 @@
 
 import { TimestampProvider } from "./TimestampProvider";
 import { ILiveShareHost, INtpTimeInfo } from "./interfaces";
+import { RetryPolicy } from "./RetryPolicy";
 
 /**
  * Timestamp Provider that calls the Live Share Host to lookup the current time.
@@ -15,10 +16,14 @@ export class HostTimestampProvider extends TimestampProvider {
     /**
      * Creates a new `DefaultTimestampProvider` instance.
      * @param host The current Live Share Host instance.
+     * @param retryPolicy Optional. Policy used to retry failed requests to the host.
      */
-    public constructor(host: ILiveShareHost) {
+    public constructor(host: ILiveShareHost, retryPolicy?: RetryPolicy) {
         super();
         this._host = host;
+        if (retryPolicy) {
+            this.retryPolicy = retryPolicy;
+        }
     }
 
     protected getNtpTime(): Promise<INtpTimeInfo> {
@@ -12,10 +12,20 @@ import {
     IRoleVerifier,
     UserMeetingRole,
     IClientTimestamp,
+    ISignalEncryptor,
 } from "./interfaces";
-import { LiveEventScope } from "./LiveEventScope";
+import {
+    IInvalidEventDetails,
+    ISendEventAndWaitOptions,
+    ISendEventAndWaitResult,
+    ISendEventOptions,
+    IUserClientResolver,
+    LiveEventScope,
+    LiveEventValidator,
+} from "./LiveEventScope";
 import { LiveEventTarget } from "./LiveEventTarget";
 import { LocalRoleVerifier } from "./LocalRoleVerifier";
+import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
 
 /**
  * Events supported by `LiveEvent` object.
@@ -25,6 +35,11 @@ export enum LiveEventEvents {
      * An event has been sent or received.
      */
     received = "received",
+
+    /**
+     * A malformed event was received from another client and ignored.
+     */
+    invalidEvent = "invalidEvent",
 }
 
 /**
@@ -40,6 +55,55 @@ export interface ILiveEventEvents<TEvent extends ILiveEvent> extends IEvent {
      * @param listener.local If true the `evt` is an event that was sent.
      */
     (event: "received", listener: (evt: TEvent, local: boolean) => void): any;
+
+    /**
+     * A malformed event was received from another client and ignored.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.details Details of the event that was ignored.
+     */
+    (
+        event: "invalidEvent",
+        listener: (details: IInvalidEventDetails) => void
+    ): any;
+}
+
+/**
+ * Options used to configure the replay of recent events to clients that join late.
+ */
+export interface ILiveEventReplayOptions {
+    /**
+     * Maximum number of recent events to remember and replay.
+     */
+    maxEvents: number;
+
+    /**
+     * Maximum age, in milliseconds, of the events to replay.
+     */
+    maxAgeMs: number;
+}
+
+/**
+ * Options used to initialize a `LiveEvent` object.
+ */
+export interface ILiveEventOptions {
+    /**
+     * Optional. List of roles allowed to send events.
+     */
+    allowedRoles?: UserMeetingRole[];
+
+    /**
+     * Optional. If provided, clients remember the most recent events sent and replay them to
+     * clients that join later.
+     *
+     * @remarks
+     * Replayed events are raised using the `received` event with `local` set to false. Events
+     * are identified by their `clientId` and `timestamp` so clients never receive the same
+     * event twice. Events targeted to specific clients or users aren't replayed. Only one of
+     * the existing clients replays its events to each client that joins, see
+     * `LiveEvent.maxReplayDelay`.
+     */
+    replay?: ILiveEventReplayOptions;
 }
 
 /**
@@ -61,8 +125,31 @@ export class LiveEvent<
     private static _timestampProvider: ITimestampProvider =
         new LocalTimestampProvider();
     private static _roleVerifier: IRoleVerifier = new LocalRoleVerifier();
+    private static _signalEncryptor?: ISignalEncryptor;
 
+    private _scope?: LiveEventScope;
     private _eventTarget?: LiveEventTarget<TEvent>;
+    private _userResolver?: IUserClientResolver;
+    private _allowedRoles: UserMeetingRole[] = [];
+    private _validator?: LiveEventValidator<TEvent>;
+    private _replay?: ILiveEventReplayOptions;
+    private _replayBuffer: TEvent[] = [];
+    private _seenEvents = new Map<string, number>();
+    private _replayEvent?: LiveEventTarget<IReplayEvent<TEvent>>;
+    private _replayAnsweredEvent?: LiveEventTarget<IReplayAnsweredEvent>;
+    private _pendingReplays = new Map<string, any>();
+    private _synchronizer?: LiveObjectSynchronizer<IReplayState<TEvent>>;
+
+    /**
+     * Maximum number of milliseconds a client waits before replaying its recent events to a
+     * client that joined.
+     *
+     * @remarks
+     * Each client waits a random delay and only the first client to reply replays its events.
+     * The events are only sent to the client that joined, and the other clients cancel their
+     * reply when they see the notice the first client broadcasts.
+     */
+    public static maxReplayDelay = 500;
 
     /**
      * The objects fluid type/name.
@@ -94,27 +181,121 @@ export class LiveEvent<
         return this.isInitialized;
     }
 
+    /**
+     * Optional. Resolver used to lookup the clients for a user when sending an event with the
+     * `toUserId` option, typically a `LivePresence` instance.
+     */
+    public get userResolver(): IUserClientResolver | undefined {
+        return this._userResolver;
+    }
+
+    public set userResolver(value: IUserClientResolver | undefined) {
+        this._userResolver = value;
+        if (this._scope) {
+            this._scope.userResolver = value;
+        }
+    }
+
+    /**
+     * Optional. Validator used to verify the events received from other clients.
+     *
+     * @remarks
+     * Events that fail validation, including events replayed by other clients, are ignored and
+     * reported using the `invalidEvent` event.
+     */
+    public get validator(): LiveEventValidator<TEvent> | undefined {
+        return this._validator;
+    }
+
+    public set validator(value: LiveEventValidator<TEvent> | undefined) {
+        this._validator = value;
+        this._eventTarget?.setValidator(value);
+    }
+
     /**
      * initialize the object.
-     * @param allowedRoles Optional. List of roles allowed to send events.
+     * @param options Optional. List of roles allowed to send events or options used to
+     * configure the object.
      */
-    public initialize(allowedRoles?: UserMeetingRole[]): Promise<void> {
+    public initialize(
+        options?: UserMeetingRole[] | ILiveEventOptions
+    ): Promise<void> {
         if (this._eventTarget) {
             throw new Error(`LiveEvent already started.`);
         }
 
-        const scope = new LiveEventScope(this.runtime, allowedRoles);
+        if (Array.isArray(options)) {
+            options = { allowedRoles: options };
+        }
+
+        this._allowedRoles = options?.allowedRoles ?? [];
+        this._replay = options?.replay;
+
+        const scope = new LiveEventScope(this.runtime, options?.allowedRoles);
+        scope.userResolver = this._userResolver;
+        this._scope = scope;
         this._eventTarget = new LiveEventTarget(
             scope,
             "event",
             (evt, local) => {
+                if (this._replay && !this.addToReplayBuffer(evt)) {
+                    // Already received as a replayed event
+                    return;
+                }
+
                 this.emit(LiveEventEvents.received, evt, local);
             }
         );
+        this._eventTarget.setValidator(this._validator);
+        scope.on("invalidEvent", (details) =>
+            this.emit(LiveEventEvents.invalidEvent, details)
+        );
+
+        // Replay recent events to clients that join
+        if (this._replay) {
+            this._replayEvent = new LiveEventTarget(
+                scope,
+                "ReplayEvents",
+                (evt, local) => this.replayReceived(evt, local)
+            );
+            this._replayAnsweredEvent = new LiveEventTarget(
+                scope,
+                "ReplayAnswered",
+                (evt, local) => this.replayAnswered(evt, local)
+            );
+            this._synchronizer = new LiveObjectSynchronizer<
+                IReplayState<TEvent>
+            >(
+                this.id,
+                this.runtime,
+                this.context.containerRuntime,
+                (connecting) => {
+                    // Only used to announce that the client joined
+                    return connecting ? { events: [] } : undefined;
+                },
+                (connecting, state, sender) => {
+                    if (connecting) {
+                        this.scheduleReplay(sender);
+                    }
+                }
+            );
+        }
 
         return Promise.resolve();
     }
 
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        if (this._synchronizer) {
+            this._synchronizer.dispose();
+        }
+        this._pendingReplays.forEach((hTimer) => clearTimeout(hTimer));
+        this._pendingReplays.clear();
+    }
+
     /**
      * Broadcasts an event to all other clients.
      *
@@ -122,16 +303,43 @@ export class LiveEvent<
      * The event will be queued for delivery if the client isn't currently connected.
      * @param evt Optional. Event to send. If omitted, an event will still be sent but it won't
      * include any custom event data.
+     * @param options Optional. Options used to target the event to specific clients or users.
      * @returns The full event object that was sent, including the timestamp of when the event
      * was sent and the clientId if known. The clientId will be `undefined` if the client is
      * disconnected at time of delivery.
      */
-    public sendEvent(evt?: Partial<TEvent>): TEvent {
+    public sendEvent(
+        evt?: Partial<TEvent>,
+        options?: ISendEventOptions
+    ): TEvent {
+        if (!this._eventTarget) {
+            throw new Error(`LiveEvent not started.`);
+        }
+
+        return this._eventTarget.sendEvent(evt, options);
+    }
+
+    /**
+     * Broadcasts an event to all other clients and waits for them to acknowledge it.
+     *
+     * #### remarks
+     * Unacknowledged events are resent and receivers ignore any duplicates, making this better
+     * suited than `sendEvent()` for events that shouldn't be missed.
+     * @param evt Optional. Event to send. If omitted, an event will still be sent but it won't
+     * include any custom event data.
+     * @param options Optional. Options controlling who the event is sent to and how long to
+     * wait for and retry the event.
+     * @returns The full event object that was sent and the list of clients that acknowledged it.
+     */
+    public sendEventAndWait(
+        evt?: Partial<TEvent>,
+        options?: ISendEventAndWaitOptions
+    ): Promise<ISendEventAndWaitResult<TEvent>> {
         if (!this._eventTarget) {
             throw new Error(`LiveEvent not started.`);
         }
 
-        return this._eventTarget.sendEvent(evt);
+        return this._eventTarget.sendEventAndWait(evt, options);
     }
 
     /**
@@ -235,6 +443,14 @@ export class LiveEvent<
         return true;
     }
 
+    /**
+     * @hidden
+     * Returns the current timestamp provider.
+     */
+    public static getTimestampProvider(): ITimestampProvider {
+        return LiveEvent._timestampProvider;
+    }
+
     /**
      * Assigns a custom timestamp provider.
      * @param provider The timestamp provider to use.
@@ -243,6 +459,14 @@ export class LiveEvent<
         LiveEvent._timestampProvider = provider;
     }
 
+    /**
+     * @hidden
+     * Returns the current role verifier.
+     */
+    public static getRoleVerifier(): IRoleVerifier {
+        return LiveEvent._roleVerifier;
+    }
+
     /**
      * @hidden
      * Assigns a new role verifier.
@@ -250,4 +474,188 @@ export class LiveEvent<
     public static setRoleVerifier(provider: IRoleVerifier): void {
         LiveEvent._roleVerifier = provider;
     }
+
+    /**
+     * @hidden
+     * Returns the encryptor used to encrypt signals, if any.
+     */
+    public static getSignalEncryptor(): ISignalEncryptor | undefined {
+        return LiveEvent._signalEncryptor;
+    }
+
+    /**
+     * Assigns the encryptor used to encrypt and decrypt the signals sent by live objects.
+     *
+     * @remarks
+     * While an encryptor is assigned, received signals that aren't encrypted or can't be
+     * decrypted are dropped. All clients in a session should use the same setting.
+     * @param encryptor The encryptor to use or `undefined` to stop encrypting signals.
+     */
+    public static setSignalEncryptor(
+        encryptor: ISignalEncryptor | undefined
+    ): void {
+        LiveEvent._signalEncryptor = encryptor;
+    }
+
+    /**
+     * Remembers an event so that it can be replayed to clients that join late.
+     * @returns False if the event has already been seen.
+     */
+    private addToReplayBuffer(evt: TEvent): boolean {
+        const key = `${evt.clientId}:${evt.timestamp}`;
+        if (this._seenEvents.has(key)) {
+            return false;
+        }
+
+        this._seenEvents.set(key, evt.timestamp);
+        if (!isTargetedEvent(evt)) {
+            this._replayBuffer.push(evt);
+            this._replayBuffer.sort((a, b) => a.timestamp - b.timestamp);
+        }
+        this.pruneReplayBuffer();
+        return true;
+    }
+
+    private getReplayBuffer(): TEvent[] {
+        this.pruneReplayBuffer();
+        return this._replayBuffer.slice();
+    }
+
+    private pruneReplayBuffer(): void {
+        const { maxEvents, maxAgeMs } = this._replay!;
+        const oldest = LiveEvent.getTimestamp() - maxAgeMs;
+        this._replayBuffer = this._replayBuffer.filter(
+            (evt) => evt.timestamp >= oldest
+        );
+        const excess = this._replayBuffer.length - Math.max(maxEvents, 0);
+        if (excess > 0) {
+            this._replayBuffer.splice(0, excess);
+        }
+
+        // Events older than the max age are never replayed so can be forgotten
+        this._seenEvents.forEach((timestamp, key) => {
+            if (timestamp < oldest) {
+                this._seenEvents.delete(key);
+            }
+        });
+    }
+
+    private scheduleReplay(requesterId: string): void {
+        if (this._pendingReplays.has(requesterId)) {
+            return;
+        }
+
+        const delay = Math.random() * Math.max(LiveEvent.maxReplayDelay, 0);
+        const hTimer = setTimeout(() => {
+            this._pendingReplays.delete(requesterId);
+            const events = this.getReplayBuffer();
+            if (events.length > 0) {
+                try {
+                    this._replayAnsweredEvent!.sendEvent({ requesterId });
+                    this._replayEvent!.sendEvent(
+                        { requesterId, events },
+                        { toClientId: requesterId }
+                    );
+                } catch (err: any) {
+                    console.error(
+                        `LiveEvent: error replaying events - ${err.toString()}`
+                    );
+                }
+            }
+        }, delay);
+        this._pendingReplays.set(requesterId, hTimer);
+    }
+
+    private replayAnswered(evt: IReplayAnsweredEvent, local: boolean): void {
+        if (local || typeof evt?.requesterId != "string") {
+            return;
+        }
+
+        // Another client replied first
+        const hTimer = this._pendingReplays.get(evt.requesterId);
+        if (hTimer != undefined) {
+            clearTimeout(hTimer);
+            this._pendingReplays.delete(evt.requesterId);
+        }
+    }
+
+    private replayReceived(evt: IReplayEvent<TEvent>, local: boolean): void {
+        if (
+            !local &&
+            evt?.requesterId == this.runtime.clientId &&
+            Array.isArray(evt.events)
+        ) {
+            this.replayEvents(evt.events, evt.clientId!);
+        }
+    }
+
+    private async replayEvents(
+        events: TEvent[],
+        senderId: string
+    ): Promise<void> {
+        // The scope has already verified that the client replaying the events has an allowed
+        // role, so only the original senders need to be verified.
+        const oldest = LiveEvent.getTimestamp() - this._replay!.maxAgeMs;
+        try {
+            const sorted = events
+                .filter(
+                    (evt) =>
+                        typeof evt?.clientId == "string" &&
+                        typeof evt.timestamp == "number" &&
+                        evt.timestamp >= oldest
+                )
+                .sort((a, b) => a.timestamp - b.timestamp);
+            for (const evt of sorted) {
+                if (
+                    this._scope!.validateEvent("event", evt, senderId) &&
+                    (await LiveEvent.verifyRolesAllowed(
+                        evt.clientId!,
+                        this._allowedRoles
+                    ))
+                ) {
+                    if (this.addToReplayBuffer(evt)) {
+                        this.emit(LiveEventEvents.received, evt, false);
+                    }
+                }
+            }
+        } catch (err: any) {
+            console.error(
+                `LiveEvent: error replaying events - ${err.toString()}`
+            );
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+interface IReplayState<TEvent extends ILiveEvent> {
+    events: TEvent[];
+}
+
+/**
+ * @hidden
+ */
+interface IReplayEvent<TEvent extends ILiveEvent> extends ILiveEvent {
+    requesterId: string;
+    events: TEvent[];
+}
+
+/**
+ * @hidden
+ */
+interface IReplayAnsweredEvent extends ILiveEvent {
+    requesterId: string;
+}
+
+/**
+ * @hidden
+ * Returns true if an event was sent to specific clients or users.
+ */
+function isTargetedEvent(
+    evt: ILiveEvent
+): evt is ILiveEvent & { targetClientIds: string[] } {
+    return Array.isArray(
+        (evt as { targetClientIds?: unknown }).targetClientIds
+    );
 }
@@ -10,8 +10,55 @@ import {
 } from "@fluidframework/common-definitions";
 import { TypedEventEmitter } from "@fluidframework/common-utils";
 import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { v4 } from "uuid";
 import { ILiveEvent, UserMeetingRole } from "./interfaces";
 import { LiveEvent } from "./LiveEvent";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import {
+    CHUNK_SIGNAL,
+    cloneValue,
+    SignalChunker,
+    SignalTransport,
+    TelemetryEvents,
+    TokenBucket,
+    validateValue,
+} from "./internals";
+
+/**
+ * Signal sent to acknowledge the receipt of an event sent using `sendEventAndWait()`.
+ */
+const ACK_EVENT = "@live-share:ack";
+
+const DEFAULT_ACK_TIMEOUT = 5000;
+const DEFAULT_ACK_RETRIES = 2;
+
+/**
+ * Number of acknowledged event IDs remembered for de-duplication purposes.
+ */
+const MAX_RECEIVED_ACK_IDS = 500;
+
+/**
+ * Events used to send requests registered using `onRequest()` and return their responses.
+ */
+const REQUEST_EVENT = "@live-share:request";
+const RESPONSE_EVENT = "@live-share:response";
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * Signal used to send multiple batched events at once.
+ */
+const BATCH_EVENT = "@live-share:batch";
+
+/**
+ * Number of queued events that causes a batch to be sent before its interval elapses.
+ */
+const MAX_BATCH_LENGTH = 50;
+
+/**
+ * Number of rate limiting buckets tracked before idle buckets are pruned.
+ */
+const MAX_RATE_LIMIT_BUCKETS = 1000;
 
 /**
  * Live event callback.
@@ -24,15 +71,359 @@ export type LiveEventListener<TEvent extends ILiveEvent> = (
     local: boolean
 ) => void;
 
+/**
+ * Types supported by an `ILiveEventSchema` descriptor.
+ */
+export type LiveEventSchemaType =
+    | "string"
+    | "number"
+    | "integer"
+    | "boolean"
+    | "object"
+    | "array"
+    | "null";
+
+/**
+ * JSON schema like descriptor used to validate incoming events.
+ *
+ * @remarks
+ * Only a subset of JSON schema is supported. Values that are `undefined` are only checked by
+ * the `required` list of their parent object.
+ */
+export interface ILiveEventSchema {
+    /**
+     * Optional. Type or list of types the value must be.
+     */
+    type?: LiveEventSchemaType | LiveEventSchemaType[];
+
+    /**
+     * Optional. List of values the value must be one of.
+     */
+    enum?: any[];
+
+    /**
+     * Optional. Validators for the properties of an object.
+     */
+    properties?: { [key: string]: LiveEventValidator };
+
+    /**
+     * Optional. List of properties an object must have.
+     */
+    required?: string[];
+
+    /**
+     * Optional. If false, objects may only contain the listed `properties`.
+     */
+    additionalProperties?: boolean;
+
+    /**
+     * Optional. Validator for the items of an array.
+     */
+    items?: LiveEventValidator;
+}
+
+/**
+ * Validator used to verify incoming events. Either a function that returns true for valid
+ * values or a schema descriptor.
+ * @template T Type of value being validated.
+ */
+export type LiveEventValidator<T = any> =
+    | ((value: T) => boolean)
+    | ILiveEventSchema;
+
+/**
+ * Details of an incoming event that failed validation.
+ */
+export interface IInvalidEventDetails {
+    /**
+     * Name of the event that was received.
+     */
+    eventName: string;
+
+    /**
+     * The event that was received.
+     */
+    event: any;
+
+    /**
+     * ID of the client that sent the event.
+     */
+    clientId: string;
+
+    /**
+     * Reason the event failed validation.
+     */
+    reason: string;
+}
+
+/**
+ * Limits the rate at which a remote client can send events.
+ *
+ * @remarks
+ * Limits are enforced using a token bucket per sender. Events received while a senders bucket
+ * is empty are dropped.
+ */
+export interface ILiveEventRateLimit {
+    /**
+     * Number of events per second a sender is allowed to send.
+     */
+    eventsPerSecond: number;
+
+    /**
+     * Optional. Number of events a sender can send in a burst before being limited to
+     * `eventsPerSecond`. Defaults to the value of `eventsPerSecond`.
+     */
+    burst?: number;
+}
+
+/**
+ * Details of a remote client that was throttled for exceeding a rate limit.
+ */
+export interface ISenderThrottledDetails {
+    /**
+     * ID of the client being throttled.
+     */
+    clientId: string;
+
+    /**
+     * Name of the event that exceeded the limit.
+     */
+    eventName: string;
+}
+
+/**
+ * Counters tracking the events received by a `LiveEventScope` and dropped due to rate limits.
+ */
+export interface ILiveEventScopeCounters {
+    /**
+     * Number of remote events received.
+     */
+    received: number;
+
+    /**
+     * Number of remote events dropped due to rate limits.
+     */
+    dropped: number;
+
+    /**
+     * Number of dropped events indexed by the client ID of the sender.
+     */
+    droppedBySender: { [clientId: string]: number };
+
+    /**
+     * Number of dropped events indexed by event name.
+     */
+    droppedByEvent: { [eventName: string]: number };
+}
+
+/**
+ * Events supported by `LiveEventScope`.
+ */
+export interface ILiveEventScopeEvents extends IErrorEvent {
+    /**
+     * An incoming event failed validation and was dropped.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.details Details of the event that was dropped.
+     */
+    (
+        event: "invalidEvent",
+        listener: (details: IInvalidEventDetails) => void
+    ): any;
+
+    /**
+     * A remote client exceeded a rate limit and its events are being dropped.
+     *
+     * @remarks
+     * Raised once each time a sender starts being throttled rather than for every dropped
+     * event.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.details Details of the sender being throttled.
+     */
+    (
+        event: "senderThrottled",
+        listener: (details: ISenderThrottledDetails) => void
+    ): any;
+}
+
+/**
+ * Function called to handle a request sent by another client using `sendRequest()`.
+ * @template TArgs Type of arguments passed with the request.
+ * @template TResult Type of result returned to the caller.
+ * @param args Arguments passed by the caller.
+ * @param senderId Client ID of the caller.
+ * @returns The result to return to the caller. Thrown errors are returned to the caller.
+ */
+export type LiveRequestHandler<TArgs = any, TResult = any> = (
+    args: TArgs,
+    senderId: string
+) => TResult | Promise<TResult>;
+
+/**
+ * Options used to configure a call to `sendRequest()`.
+ */
+export interface ISendRequestOptions {
+    /**
+     * Optional. Number of milliseconds to wait for a response. Defaults to 5000.
+     */
+    timeout?: number;
+
+    /**
+     * Optional. List of roles the responding client must have for its response to be accepted.
+     */
+    allowedRoles?: UserMeetingRole[];
+}
+
+/**
+ * Options used to configure a call to `sendEvent()`.
+ */
+export interface ISendEventOptions {
+    /**
+     * Optional. Client ID or list of client ID's the event should be delivered to.
+     *
+     * @remarks
+     * Clients that aren't targeted will ignore the event without calling any listeners.
+     */
+    toClientId?: string | string[];
+
+    /**
+     * Optional. ID of the user the event should be delivered to.
+     *
+     * @remarks
+     * The user ID is resolved to the list of clients the user is connected with using the scopes
+     * `userResolver`, typically a `LivePresence` instance.
+     */
+    toUserId?: string;
+
+    /**
+     * Optional. If true, a batched event replaces any earlier events of the same name and
+     * targets that are still waiting to be sent.
+     *
+     * @remarks
+     * Use for events where only the latest value matters, like pointer or position updates.
+     * Has no effect when batching is disabled.
+     */
+    coalesce?: boolean;
+
+    /**
+     * Optional. If true, the event is sent immediately rather than being batched. Any events
+     * already waiting to be sent are sent first to preserve ordering.
+     */
+    immediate?: boolean;
+
+    /**
+     * Optional. Number of milliseconds the event can wait in the scopes offline queue before
+     * being discarded. Defaults to the `ttl` of the scopes `offlineQueue`.
+     */
+    ttl?: number;
+}
+
+/**
+ * Options used to configure the queue holding events sent while disconnected.
+ */
+export interface ILiveEventOfflineQueue {
+    /**
+     * Maximum number of events to queue. The oldest events are discarded once full.
+     */
+    maxEvents: number;
+
+    /**
+     * Number of milliseconds queued events are kept for before being discarded.
+     */
+    ttl: number;
+}
+
+/**
+ * Resolves the client ID's a user is connected with.
+ *
+ * @remarks
+ * Implemented by `LivePresence`.
+ */
+export interface IUserClientResolver {
+    /**
+     * Returns the list of client ID's a user is connected with.
+     * @param userId ID of the user to lookup.
+     */
+    getClientIdsForUser(userId: string): string[];
+}
+
+/**
+ * Options used to configure a call to `sendEventAndWait()`.
+ *
+ * @remarks
+ * When an event is targeted to specific clients or a user, those clients will be the default
+ * `expectedRecipients`.
+ */
+export interface ISendEventAndWaitOptions extends ISendEventOptions {
+    /**
+     * Optional. Number of milliseconds to wait for acknowledgements. Defaults to 5000.
+     */
+    timeout?: number;
+
+    /**
+     * Optional. List of client ID's expected to acknowledge the event.
+     *
+     * @remarks
+     * When provided, the call returns as soon as every expected recipient has acknowledged the
+     * event. Otherwise the call waits for the full `timeout` to collect acknowledgements.
+     * Recipients don't need one of the scopes allowed roles to acknowledge an event.
+     */
+    expectedRecipients?: string[];
+
+    /**
+     * Optional. Number of times to resend an event that hasn't been acknowledged. Defaults to 2.
+     *
+     * @remarks
+     * Retries are spread evenly across the `timeout` period and skipped while disconnected.
+     * Without a list of `expectedRecipients` the event is only resent if no clients have
+     * acknowledged it.
+     */
+    maxRetries?: number;
+}
+
+/**
+ * Result returned from a call to `sendEventAndWait()`.
+ * @template TEvent Type of event that was sent.
+ */
+export interface ISendEventAndWaitResult<TEvent extends ILiveEvent> {
+    /**
+     * The full event that was sent.
+     */
+    event: TEvent;
+
+    /**
+     * List of client ID's that acknowledged receiving the event.
+     */
+    acknowledgedBy: string[];
+
+    /**
+     * List of expected recipients that didn't acknowledge the event before timing out.
+     */
+    missingRecipients: string[];
+}
+
 /**
  * Duck type of something that provides the expected signalling functionality:
  * A way to verify we can signal, a way to send a signal, and a way to listen for incoming signals
+ *
+ * @remarks
+ * When available, the audience is used to detect clients leaving while a request sent to them
+ * using `sendRequest()` is waiting for a response.
  */
 export interface IRuntimeSignaler {
     readonly clientId: string | undefined;
     readonly connected: boolean;
     readonly logger: ITelemetryLogger;
+    getAudience?(): {
+        on(
+            event: "removeMember",
+            listener: (clientId: string) => void
+        ): unknown;
+    };
     on(event: "connected", listener: (clientId: string) => void): this;
+    on(event: "disconnected", listener: () => void): this;
+    on(event: "dispose", listener: () => void): this;
     on(
         event: "signal",
         listener: (message: IInboundSignalMessage, local: boolean) => void
@@ -54,10 +445,38 @@ export interface IRuntimeSignaler {
  * scopes within the same FLuid object, you just need to be careful that they send different
  * events.
  */
-export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
+export class LiveEventScope extends TypedEventEmitter<ILiveEventScopeEvents> {
     private readonly emitter = new EventEmitter();
     private readonly _runtime: IRuntimeSignaler;
+    private readonly _logger: LiveTelemetryLogger;
+    private readonly _validators = new Map<string, LiveEventValidator>();
+    private _rateLimit?: ILiveEventRateLimit;
+    private readonly _eventRateLimits = new Map<string, ILiveEventRateLimit>();
+    private readonly _rateLimitBuckets = new Map<string, TokenBucket>();
+    private readonly _throttledSenders = new Set<string>();
+    private _batchInterval: number;
+    private _batch: IBatchedEvent[] = [];
+    private _hBatchTimer?: any;
+    private readonly _transport: SignalTransport;
+    private _counters: ILiveEventScopeCounters = {
+        received: 0,
+        dropped: 0,
+        droppedBySender: {},
+        droppedByEvent: {},
+    };
     private _allowedRoles: UserMeetingRole[];
+    private readonly _pendingAcks = new Map<
+        string,
+        (clientId: string) => void
+    >();
+    private _receivedAckIds: string[] = [];
+    private readonly _requestHandlers = new Map<
+        string,
+        { handler: LiveRequestHandler; allowedRoles: UserMeetingRole[] }
+    >();
+    private readonly _pendingRequests = new Map<string, IPendingRequest>();
+    private _offlineQueue?: ILiveEventOfflineQueue;
+    private _queuedEvents: IQueuedEvent[] = [];
 
     /**
      * Creates a new `LiveEventScope` instance.
@@ -68,49 +487,74 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
     constructor(runtime: IRuntimeSignaler, allowedRoles?: UserMeetingRole[]) {
         super();
         this._runtime = runtime;
+        this._logger = new LiveTelemetryLogger(runtime);
+        this._transport = new SignalTransport(
+            (type, content) => runtime.submitSignal(type, content),
+            this._logger,
+            () => LiveEvent.getSignalEncryptor(),
+            () => runtime.clientId
+        );
+        this._rateLimit = LiveEventScope.defaultRateLimit;
+        this._batchInterval = LiveEventScope.defaultBatchInterval;
+        this._offlineQueue = LiveEventScope.defaultOfflineQueue;
         this._allowedRoles = allowedRoles || [];
         this.emitter.on("error", (error) => {
             this.emit("error", error);
         });
-        this._runtime.on("signal", (message, local) => {
-            // We don't trust the clientId in the message content as it could have been tampered
-            // with (in fact it could be missing if the message was queued when disconnected.)
-            // We'll overwrite the contents clientId with the messages clientId which can't be
-            // spoofed.
-            const clientId = message.clientId;
-            (message.content as ILiveEvent).clientId = clientId as string;
-
-            // Only call listeners when the runtime is connected and if the signal has an
-            // identifiable sender clientId.  The listener is responsible for deciding how
-            // it wants to handle local/remote signals
-            if (this._runtime.connected && clientId !== null) {
-                LiveEvent.verifyRolesAllowed(clientId, this._allowedRoles)
-                    .then((value) => {
-                        if (value) {
-                            this.emitter.emit(
-                                message.type,
-                                message.content,
-                                local
-                            );
-                        } else {
-                            this._runtime.logger.sendErrorEvent(
-                                { eventName: "SharedEvent:invalidRole" },
-                                new Error(
-                                    `The clientId of "${clientId}" doesn't have a role of ${JSON.stringify(
-                                        this._allowedRoles
-                                    )}.`
-                                )
-                            );
-                        }
-                    })
-                    .catch((err) => {
-                        this._runtime.logger.sendErrorEvent(
-                            { eventName: "SharedEvent:invalidRole" },
-                            err
-                        );
-                    });
+        this.emitter.on(REQUEST_EVENT, (evt: IRequestEvent, local: boolean) => {
+            if (!local) {
+                this.requestReceived(evt);
             }
         });
+        this.emitter.on(
+            RESPONSE_EVENT,
+            (evt: IResponseEvent, local: boolean) => {
+                const pending = this._pendingRequests.get(evt.requestId);
+                if (!local && pending && pending.toClientId == evt.clientId) {
+                    pending.responseReceived(evt);
+                }
+            }
+        );
+        this._runtime.on("connected", () => this.flushOfflineQueue());
+        this._runtime.on("disconnected", () => {
+            // Pending requests won't receive a response
+            this._pendingRequests.forEach((pending) =>
+                pending.cancel(
+                    new Error(
+                        `LiveEventScope: disconnected while waiting for a response.`
+                    )
+                )
+            );
+        });
+        this._runtime.getAudience?.().on("removeMember", (clientId) => {
+            // Pending requests sent to a client that left won't receive a response
+            this._pendingRequests.forEach((pending) => {
+                if (pending.toClientId == clientId) {
+                    pending.cancel(
+                        new Error(
+                            `LiveEventScope: client '${clientId}' left while waiting for a response.`
+                        )
+                    );
+                }
+            });
+        });
+        this._runtime.on("signal", (message, local) => {
+            // Reassemble and decrypt signals as needed
+            this._transport.receive(
+                message,
+                local,
+                LiveEventScope.maxPayloadSize,
+                LiveEventScope.maxSignalSize,
+                (type, content) =>
+                    this.messageReceived(
+                        type,
+                        content,
+                        message.clientId,
+                        local
+                    ),
+                (clientId) => this.isChunkWithinRateLimits(clientId)
+            );
+        });
     }
 
     /**
@@ -124,6 +568,199 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
         this._allowedRoles = values;
     }
 
+    /**
+     * Default rate limit applied to every remote sender by scopes without their own
+     * `rateLimit`.
+     *
+     * @remarks
+     * Defaults to `undefined` which disables rate limiting. Setting a default also protects the
+     * scopes created internally by other live objects. Only applies to scopes created after the
+     * default is set.
+     */
+    public static defaultRateLimit?: ILiveEventRateLimit;
+
+    /**
+     * Rate limit applied to each remote sender across all of the events received by the scope.
+     *
+     * @remarks
+     * Defaults to the value of `LiveEventScope.defaultRateLimit`. Set to `undefined` to
+     * disable the limit for this scope. Chunks of large events are also limited as they
+     * arrive, with enough allowance for `rateLimit` events of the maximum payload size.
+     */
+    public get rateLimit(): ILiveEventRateLimit | undefined {
+        return this._rateLimit;
+    }
+
+    public set rateLimit(value: ILiveEventRateLimit | undefined) {
+        this._rateLimit = value;
+        this._rateLimitBuckets.clear();
+    }
+
+    /**
+     * Size, in bytes, above which signals are split into multiple chunks.
+     *
+     * @remarks
+     * Defaults to a value of `8000`, which keeps each signal under the size limit enforced by
+     * the service. Chunks are transparently reassembled by receivers. Also applies to the
+     * signals sent by `LiveObjectSynchronizer`.
+     */
+    public static maxSignalSize = 8000;
+
+    /**
+     * Maximum size, in bytes, of an event that can be sent.
+     *
+     * @remarks
+     * Defaults to a value of `262144`. Events larger than this are not sent and an `error`
+     * event is raised instead. Partially received events are discarded if they grow larger
+     * than this or their remaining chunks aren't received within a few seconds.
+     */
+    public static maxPayloadSize = 262144;
+
+    /**
+     * Default number of milliseconds events are batched for by new scopes.
+     *
+     * @remarks
+     * Defaults to a value of `0` which disables batching. Clients receiving batched events
+     * must be running a version of the SDK that supports batching.
+     */
+    public static defaultBatchInterval = 0;
+
+    /**
+     * Number of milliseconds to batch outgoing events for before sending them as a single
+     * signal.
+     *
+     * @remarks
+     * Defaults to the value of `LiveEventScope.defaultBatchInterval`. A value of `16` batches
+     * events roughly once per frame. Events flagged with the `coalesce` option replace earlier
+     * events of the same name in the batch and events flagged with the `immediate` option
+     * bypass batching. Setting the interval to `0` disables batching and sends any events
+     * waiting to be sent.
+     */
+    public get batchInterval(): number {
+        return this._batchInterval;
+    }
+
+    public set batchInterval(value: number) {
+        this._batchInterval = value > 0 ? value : 0;
+        if (this._batchInterval == 0) {
+            this.flushEvents();
+        }
+    }
+
+    /**
+     * Default offline queue used by new scopes.
+     *
+     * @remarks
+     * Defaults to `undefined` which drops events sent while disconnected. Only applies to
+     * scopes created after the default is set.
+     */
+    public static defaultOfflineQueue?: ILiveEventOfflineQueue;
+
+    /**
+     * Queue used to hold events sent while the runtime is disconnected.
+     *
+     * @remarks
+     * Defaults to the value of `LiveEventScope.defaultOfflineQueue`. Queued events are sent
+     * with a fresh timestamp and client ID once the runtime reconnects. Events flagged with the
+     * `coalesce` option replace earlier queued events of the same name and targets. Set to
+     * `undefined` to disable queuing and discard any queued events.
+     */
+    public get offlineQueue(): ILiveEventOfflineQueue | undefined {
+        return this._offlineQueue;
+    }
+
+    public set offlineQueue(value: ILiveEventOfflineQueue | undefined) {
+        this._offlineQueue = value;
+        if (!value) {
+            this._queuedEvents = [];
+        }
+    }
+
+    /**
+     * Number of events waiting in the offline queue.
+     */
+    public get queuedEventCount(): number {
+        return this._queuedEvents.length;
+    }
+
+    /**
+     * Immediately sends any batched events that are waiting to be sent.
+     */
+    public flushEvents(): void {
+        if (this._hBatchTimer) {
+            clearTimeout(this._hBatchTimer);
+            this._hBatchTimer = undefined;
+        }
+
+        const batch = this._batch;
+        this._batch = [];
+        if (batch.length > 1) {
+            const content = {
+                events: batch.map((item) => ({
+                    type: item.type,
+                    content: item.content,
+                })),
+            };
+
+            // Send events individually if the batch is larger than the payload limit
+            if (
+                SignalChunker.getPayloadSize(content) <=
+                LiveEventScope.maxPayloadSize
+            ) {
+                this.submitSignal(BATCH_EVENT, content);
+                return;
+            }
+        }
+
+        batch.forEach((item) => this.submitSignal(item.type, item.content));
+    }
+
+    /**
+     * Snapshot of the counters tracking received and dropped events.
+     */
+    public get counters(): ILiveEventScopeCounters {
+        return cloneValue(this._counters)!;
+    }
+
+    /**
+     * Sets the rate limit applied to each remote sender for a specific event.
+     *
+     * @remarks
+     * Event limits are enforced in addition to the scopes `rateLimit`.
+     * @param eventName Name of the event to limit.
+     * @param limit Limit to apply. Pass `undefined` to remove the current limit.
+     */
+    public setEventRateLimit(
+        eventName: string,
+        limit: ILiveEventRateLimit | undefined
+    ): this {
+        if (limit) {
+            this._eventRateLimits.set(eventName, limit);
+        } else {
+            this._eventRateLimits.delete(eventName);
+        }
+        this._rateLimitBuckets.clear();
+        return this;
+    }
+
+    /**
+     * Resets the counters tracking received and dropped events.
+     */
+    public resetCounters(): void {
+        this._counters = {
+            received: 0,
+            dropped: 0,
+            droppedBySender: {},
+            droppedByEvent: {},
+        };
+    }
+
+    /**
+     * Optional. Resolver used to lookup the clients for a user when sending an event with the
+     * `toUserId` option.
+     */
+    public userResolver?: IUserClientResolver;
+
     /**
      * The runtimes current client ID. This will be `undefined` if the client is disconnected.
      */
@@ -166,12 +803,287 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
      * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
      * fields will be automatically populated prior to sending.
+     * @param options Optional. Options used to target the event to specific clients or users.
      * @returns The full event, including `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId` fields if known.
      */
     public sendEvent<TEvent extends ILiveEvent>(
         eventName: string,
-        evt: Partial<TEvent> = {}
+        evt: Partial<TEvent> = {},
+        options?: ISendEventOptions
+    ): TEvent {
+        const clone = this.createEvent<TEvent>(eventName, evt, options);
+        this.trySendEvent(eventName, evt, clone, options);
+
+        return clone;
+    }
+
+    /**
+     * Sends an event to other event scope instances for the Fluid object and waits for the
+     * receivers to acknowledge it.
+     *
+     * @remarks
+     * Receivers automatically acknowledge events and ignore any duplicates caused by retries, so
+     * listeners will be called at most once per event.
+     * @template TEvent Type of event to send.
+     * @param eventName Name of the event to send.
+     * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
+     * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
+     * fields will be automatically populated prior to sending.
+     * @param options Optional. Options controlling who the event is sent to and how long to
+     * wait for and retry the event.
+     * @returns The full event that was sent and the list of clients that acknowledged it.
+     */
+    public sendEventAndWait<TEvent extends ILiveEvent>(
+        eventName: string,
+        evt: Partial<TEvent> = {},
+        options?: ISendEventAndWaitOptions
+    ): Promise<ISendEventAndWaitResult<TEvent>> {
+        const timeout = options?.timeout ?? DEFAULT_ACK_TIMEOUT;
+        const maxRetries = options?.maxRetries ?? DEFAULT_ACK_RETRIES;
+
+        // Send event with an ID receivers should acknowledge
+        const ackId = v4();
+        const ackEvt = { ...evt, ackId };
+        const clone = this.createEvent<TEvent>(eventName, ackEvt, options);
+        const sent = this.trySendEvent(eventName, ackEvt, clone, options);
+        const expected =
+            options?.expectedRecipients ??
+            (clone as IInternalLiveEvent).targetClientIds;
+
+        return new Promise((resolve) => {
+            const acknowledgedBy: string[] = [];
+            const isWaiting = () =>
+                expected
+                    ? expected.some((id) => acknowledgedBy.indexOf(id) < 0)
+                    : acknowledgedBy.length == 0;
+            const finish = () => {
+                clearTimeout(hTimeout);
+                clearInterval(hRetry);
+                this._pendingAcks.delete(ackId);
+                resolve({
+                    event: clone,
+                    acknowledgedBy,
+                    missingRecipients: (expected ?? []).filter(
+                        (id) => acknowledgedBy.indexOf(id) < 0
+                    ),
+                });
+            };
+
+            // Events too large to send will never be acknowledged
+            if (!sent) {
+                resolve({
+                    event: clone,
+                    acknowledgedBy: [],
+                    missingRecipients: expected ?? [],
+                });
+                return;
+            }
+
+            // Resend event until acknowledged, pausing while disconnected
+            let retries = 0;
+            const hTimeout = setTimeout(finish, timeout);
+            const hRetry = setInterval(() => {
+                if (
+                    retries < maxRetries &&
+                    isWaiting() &&
+                    this._runtime.connected
+                ) {
+                    retries++;
+                    this.trySendEvent(eventName, ackEvt, clone, options);
+                }
+            }, timeout / (maxRetries + 1));
+
+            // Wait for acknowledgements
+            this._pendingAcks.set(ackId, (clientId) => {
+                if (acknowledgedBy.indexOf(clientId) < 0) {
+                    acknowledgedBy.push(clientId);
+                }
+
+                if (expected && !isWaiting()) {
+                    finish();
+                }
+            });
+
+            if (expected && !isWaiting()) {
+                finish();
+            }
+        });
+    }
+
+    /**
+     * Registers a validator for incoming events of a given name.
+     *
+     * @remarks
+     * Remote events that fail validation are dropped without calling any listeners, logged,
+     * and reported using the `invalidEvent` event. Events sent by the local client aren't
+     * validated.
+     * @param eventName Name of the event to validate.
+     * @param validator Function or schema used to validate the event. Pass `undefined` to
+     * remove the current validator.
+     */
+    public setEventValidator<TEvent extends ILiveEvent = ILiveEvent>(
+        eventName: string,
+        validator: LiveEventValidator<TEvent> | undefined
+    ): this {
+        if (validator) {
+            this._validators.set(eventName, validator);
+        } else {
+            this._validators.delete(eventName);
+        }
+        return this;
+    }
+
+    /**
+     * Validates an event that was received from a remote client outside of the scope.
+     *
+     * @remarks
+     * Lets live objects validate the state they receive through other channels, like their
+     * `LiveObjectSynchronizer` or the container, the same way events sent through the scope are
+     * validated. Invalid events are logged and reported using the `invalidEvent` event.
+     * @param eventName Name of the event whose validator should be used.
+     * @param evt The received event.
+     * @param clientId ID of the client that sent the event.
+     * @param validator Optional. Validator to use instead of the one registered for `eventName`.
+     * @returns True if the event is valid.
+     */
+    public validateEvent<TEvent = any>(
+        eventName: string,
+        evt: TEvent,
+        clientId: string,
+        validator?: LiveEventValidator<TEvent>
+    ): boolean {
+        return this.isValidEvent(
+            eventName,
+            evt,
+            clientId,
+            validator ?? this._validators.get(eventName)
+        );
+    }
+
+    /**
+     * Registers a handler for requests sent by other clients using `sendRequest()`.
+     *
+     * @remarks
+     * Only one handler can be registered per request name. Requests are ignored if no handler is
+     * registered, causing the caller to time out.
+     * @param name Name of the request to handle.
+     * @param handler Function called to handle the request.
+     * @param allowedRoles Optional. List of roles the caller must have. Requests from callers
+     * without one of the roles receive an error.
+     */
+    public onRequest<TArgs = any, TResult = any>(
+        name: string,
+        handler: LiveRequestHandler<TArgs, TResult>,
+        allowedRoles?: UserMeetingRole[]
+    ): this {
+        this._requestHandlers.set(name, {
+            handler,
+            allowedRoles: allowedRoles || [],
+        });
+        return this;
+    }
+
+    /**
+     * Un-registers the handler for a named request.
+     * @param name Name of the request passed to `onRequest()`.
+     */
+    public offRequest(name: string): this {
+        this._requestHandlers.delete(name);
+        return this;
+    }
+
+    /**
+     * Sends a request to another client and waits for its response.
+     *
+     * @remarks
+     * The request is handled by the handler registered for `name` using `onRequest()` on the
+     * target client. The returned promise is rejected if the handler throws, the request times
+     * out, or either the local or target client disconnects before a response is received.
+     * @template TResult Type of result returned by the handler.
+     * @template TArgs Type of arguments passed to the handler.
+     * @param toClientId Client ID of the client to send the request to.
+     * @param name Name of the request to send.
+     * @param args Optional. Arguments to pass to the handler.
+     * @param options Optional. Options controlling how long to wait for a response and which
+     * roles the responding client must have.
+     * @returns The result returned by the handler.
+     */
+    public sendRequest<TResult = any, TArgs = any>(
+        toClientId: string,
+        name: string,
+        args?: TArgs,
+        options?: ISendRequestOptions
+    ): Promise<TResult> {
+        return new Promise((resolve, reject) => {
+            if (!this._runtime.connected) {
+                reject(
+                    new Error(
+                        `LiveEventScope: can't send request '${name}' while disconnected.`
+                    )
+                );
+                return;
+            }
+
+            const requestId = v4();
+            const finish = (err?: Error, result?: TResult) => {
+                clearTimeout(hTimer);
+                this._pendingRequests.delete(requestId);
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(result!);
+                }
+            };
+            const hTimer = setTimeout(() => {
+                finish(
+                    new Error(`LiveEventScope: request '${name}' timed out.`)
+                );
+            }, options?.timeout ?? DEFAULT_REQUEST_TIMEOUT);
+
+            // Wait for response
+            this._pendingRequests.set(requestId, {
+                toClientId,
+                cancel: finish,
+                responseReceived: (evt) => {
+                    LiveEvent.verifyRolesAllowed(
+                        toClientId,
+                        options?.allowedRoles ?? []
+                    )
+                        .then((allowed) => {
+                            if (!allowed) {
+                                finish(
+                                    new Error(
+                                        `LiveEventScope: the client responding to '${name}' doesn't have an allowed role.`
+                                    )
+                                );
+                            } else if (typeof evt.error == "string") {
+                                finish(new Error(evt.error));
+                            } else {
+                                finish(undefined, evt.result);
+                            }
+                        })
+                        .catch((err) => finish(err));
+                },
+            });
+
+            // Send request
+            this.sendEvent<IRequestEvent>(
+                REQUEST_EVENT,
+                { requestId, method: name, args },
+                { toClientId }
+            );
+        });
+    }
+
+    private submitSignal(type: string, content: any): void {
+        this._transport.send(type, content, LiveEventScope.maxSignalSize);
+    }
+
+    private createEvent<TEvent extends ILiveEvent>(
+        eventName: string,
+        evt: Partial<TEvent>,
+        options?: ISendEventOptions
     ): TEvent {
         // Clone passed in event and fill out required props.
         const clone: TEvent = {
@@ -181,9 +1093,522 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
             timestamp: LiveEvent.getTimestamp(),
         };
 
-        // Send event
-        this._runtime.submitSignal(eventName, clone);
+        // Add list of targeted clients
+        const targetClientIds = this.getTargetClientIds(options);
+        if (targetClientIds) {
+            (clone as IInternalLiveEvent).targetClientIds = targetClientIds;
+        }
 
         return clone;
     }
+
+    /**
+     * Sends an event unless it's too large, holding it in the offline queue while disconnected.
+     * @returns False if the event was too large to send.
+     */
+    private trySendEvent(
+        eventName: string,
+        evt: Partial<ILiveEvent>,
+        clone: IInternalLiveEvent,
+        options?: ISendEventOptions
+    ): boolean {
+        // Ensure event isn't too large to send
+        const size = SignalChunker.getPayloadSize(clone);
+        if (size > LiveEventScope.maxPayloadSize) {
+            const error = new Error(
+                `LiveEventScope: the '${eventName}' event is ${size} bytes which exceeds the maxPayloadSize of ${LiveEventScope.maxPayloadSize} bytes.`
+            );
+            this._logger.sendErrorEvent(
+                TelemetryEvents.LiveEventScope.PayloadTooLarge,
+                error
+            );
+            this.emit("error", error);
+            return false;
+        }
+
+        // Hold event until reconnected
+        if (!this._runtime.connected && this._offlineQueue) {
+            this.queueEvent(eventName, evt, clone, options);
+            return true;
+        }
+
+        // Send event
+        this.submitEvent(eventName, clone, options);
+        return true;
+    }
+
+    private queueEvent(
+        eventName: string,
+        evt: Partial<ILiveEvent>,
+        clone: IInternalLiveEvent,
+        options?: ISendEventOptions
+    ): void {
+        const queue = this._offlineQueue!;
+
+        // Replace earlier events when coalescing
+        let coalesceKey: string | undefined;
+        if (options?.coalesce) {
+            coalesceKey = `${eventName}:${(clone.targetClientIds ?? []).join(
+                ","
+            )}`;
+            this._queuedEvents = this._queuedEvents.filter(
+                (item) => item.coalesceKey != coalesceKey
+            );
+        }
+
+        this._queuedEvents.push({
+            eventName,
+            evt,
+            options,
+            expiresAt: new Date().getTime() + (options?.ttl ?? queue.ttl),
+            coalesceKey,
+        });
+        if (this._queuedEvents.length > queue.maxEvents) {
+            this._queuedEvents.splice(
+                0,
+                this._queuedEvents.length - queue.maxEvents
+            );
+        }
+    }
+
+    private flushOfflineQueue(): void {
+        // Resend unexpired events with a fresh timestamp
+        const now = new Date().getTime();
+        const queued = this._queuedEvents;
+        this._queuedEvents = [];
+        queued.forEach((item) => {
+            if (item.expiresAt >= now) {
+                this.sendEvent(item.eventName, item.evt, item.options);
+            }
+        });
+    }
+
+    private submitEvent(
+        eventName: string,
+        evt: IInternalLiveEvent,
+        options?: ISendEventOptions
+    ): void {
+        if (this._batchInterval <= 0 || options?.immediate) {
+            this.flushEvents();
+            this.submitSignal(eventName, evt);
+            return;
+        }
+
+        // Replace earlier events when coalescing
+        let coalesceKey: string | undefined;
+        if (options?.coalesce) {
+            coalesceKey = `${eventName}:${(evt.targetClientIds ?? []).join(
+                ","
+            )}`;
+            this._batch = this._batch.filter(
+                (item) => item.coalesceKey != coalesceKey
+            );
+        }
+
+        this._batch.push({ type: eventName, content: evt, coalesceKey });
+        if (this._batch.length >= MAX_BATCH_LENGTH) {
+            this.flushEvents();
+        } else if (!this._hBatchTimer) {
+            this._hBatchTimer = setTimeout(
+                () => this.flushEvents(),
+                this._batchInterval
+            );
+        }
+    }
+
+    private messageReceived(
+        type: string,
+        content: any,
+        clientId: string | null,
+        local: boolean
+    ): void {
+        // Unpack batched events and process them in order
+        if (type == BATCH_EVENT) {
+            const events = content?.events;
+            if (Array.isArray(events)) {
+                events.forEach((item: IBatchedEvent) => {
+                    if (
+                        typeof item?.type == "string" &&
+                        item.type != BATCH_EVENT &&
+                        typeof item.content == "object" &&
+                        item.content !== null
+                    ) {
+                        this.signalReceived(
+                            item.type,
+                            item.content,
+                            clientId,
+                            local
+                        );
+                    }
+                });
+            }
+            return;
+        }
+
+        this.signalReceived(type, content, clientId, local);
+    }
+
+    private signalReceived(
+        type: string,
+        content: any,
+        clientId: string | null,
+        local: boolean
+    ): void {
+        // Process acknowledgements for events sent using sendEventAndWait()
+        if (type == ACK_EVENT) {
+            if (!local && clientId !== null) {
+                this.ackReceived(content?.ackId, clientId);
+            }
+            return;
+        }
+
+        // Drop remote signals from senders that exceeded their rate limit
+        if (!local && clientId !== null) {
+            this._counters.received++;
+            if (!this.isWithinRateLimits(clientId, type)) {
+                return;
+            }
+        }
+
+        // We don't trust the clientId in the message content as it could have been tampered
+        // with (in fact it could be missing if the message was queued when disconnected.)
+        // We'll overwrite the contents clientId with the messages clientId which can't be
+        // spoofed.
+        (content as ILiveEvent).clientId = clientId as string;
+
+        // Ignore events targeted to other clients
+        const targetClientIds = content?.targetClientIds;
+        if (
+            !local &&
+            Array.isArray(targetClientIds) &&
+            targetClientIds.indexOf(this._runtime.clientId) < 0
+        ) {
+            return;
+        }
+
+        // Drop remote events with malformed content
+        if (
+            !local &&
+            clientId !== null &&
+            !this.isValidEvent(
+                type,
+                content,
+                clientId,
+                this._validators.get(type)
+            )
+        ) {
+            return;
+        }
+
+        // Only call listeners when the runtime is connected and if the signal has an
+        // identifiable sender clientId.  The listener is responsible for deciding how
+        // it wants to handle local/remote signals
+        if (this._runtime.connected && clientId !== null) {
+            LiveEvent.verifyRolesAllowed(clientId, this._allowedRoles)
+                .then((value) => {
+                    if (value) {
+                        this.dispatchEvent(type, content, local);
+                    } else {
+                        this._runtime.logger.sendErrorEvent(
+                            { eventName: "SharedEvent:invalidRole" },
+                            new Error(
+                                `The clientId of "${clientId}" doesn't have a role of ${JSON.stringify(
+                                    this._allowedRoles
+                                )}.`
+                            )
+                        );
+                    }
+                })
+                .catch((err) => {
+                    this._runtime.logger.sendErrorEvent(
+                        { eventName: "SharedEvent:invalidRole" },
+                        err
+                    );
+                });
+        }
+    }
+
+    private ackReceived(ackId: any, clientId: string): void {
+        if (!this._pendingAcks.has(ackId)) {
+            return;
+        }
+
+        // Recipients don't need a role allowed to send on the scope to acknowledge its events
+        this._counters.received++;
+        if (this.isWithinRateLimits(clientId, ACK_EVENT)) {
+            this._pendingAcks.get(ackId)!(clientId);
+        }
+    }
+
+    private isWithinRateLimits(clientId: string, eventName: string): boolean {
+        const now = new Date().getTime();
+        if (
+            this.tryConsume(clientId, this._rateLimit, now) &&
+            this.tryConsume(
+                `${clientId}/${eventName}`,
+                this._eventRateLimits.get(eventName),
+                now
+            )
+        ) {
+            this._throttledSenders.delete(clientId);
+            return true;
+        }
+
+        this.senderThrottled(clientId, eventName);
+        return false;
+    }
+
+    private isChunkWithinRateLimits(clientId: string): boolean {
+        // Allow enough chunks to send `rateLimit` events of the maximum payload size
+        const limit = this._rateLimit;
+        if (!limit) {
+            return true;
+        }
+
+        const maxChunks = SignalChunker.getMaxChunkCount(
+            LiveEventScope.maxPayloadSize,
+            LiveEventScope.maxSignalSize
+        );
+        if (
+            this.tryConsume(
+                `${clientId}/${CHUNK_SIGNAL}`,
+                {
+                    eventsPerSecond: limit.eventsPerSecond * maxChunks,
+                    burst: (limit.burst ?? limit.eventsPerSecond) * maxChunks,
+                },
+                new Date().getTime()
+            )
+        ) {
+            return true;
+        }
+
+        this.senderThrottled(clientId, CHUNK_SIGNAL);
+        return false;
+    }
+
+    private senderThrottled(clientId: string, eventName: string): void {
+        this._counters.dropped++;
+        this._counters.droppedBySender[clientId] =
+            (this._counters.droppedBySender[clientId] ?? 0) + 1;
+        this._counters.droppedByEvent[eventName] =
+            (this._counters.droppedByEvent[eventName] ?? 0) + 1;
+        if (!this._throttledSenders.has(clientId)) {
+            this._throttledSenders.add(clientId);
+            this._logger.sendTelemetryEvent(
+                TelemetryEvents.LiveEventScope.SenderThrottled,
+                undefined,
+                { senderId: clientId, signalType: eventName }
+            );
+            this.emit("senderThrottled", { clientId, eventName });
+        }
+    }
+
+    private tryConsume(
+        key: string,
+        limit: ILiveEventRateLimit | undefined,
+        now: number
+    ): boolean {
+        if (!limit) {
+            return true;
+        }
+
+        let bucket = this._rateLimitBuckets.get(key);
+        if (!bucket) {
+            if (this._rateLimitBuckets.size >= MAX_RATE_LIMIT_BUCKETS) {
+                // Forget senders that have been idle long enough to refill their bucket
+                this._rateLimitBuckets.forEach((bucket, key) => {
+                    if (bucket.isFull(now)) {
+                        this._rateLimitBuckets.delete(key);
+                    }
+                });
+            }
+            bucket = new TokenBucket(
+                limit.eventsPerSecond,
+                limit.burst ?? limit.eventsPerSecond,
+                now
+            );
+            this._rateLimitBuckets.set(key, bucket);
+        }
+
+        return bucket.tryConsume(now);
+    }
+
+    private isValidEvent(
+        eventName: string,
+        evt: any,
+        clientId: string,
+        validator: LiveEventValidator<any> | undefined
+    ): boolean {
+        if (!validator) {
+            return true;
+        }
+
+        const reason = validateValue(evt, validator);
+        if (reason) {
+            this._logger.sendErrorEvent(
+                TelemetryEvents.LiveEventScope.InvalidEvent,
+                new Error(
+                    `LiveEventScope: invalid '${eventName}' event received from "${clientId}": ${reason}.`
+                )
+            );
+            this.emit("invalidEvent", {
+                eventName,
+                event: evt,
+                clientId,
+                reason,
+            });
+            return false;
+        }
+
+        return true;
+    }
+
+    private requestReceived(evt: IRequestEvent): void {
+        const registered = this._requestHandlers.get(evt.method);
+        if (!registered) {
+            return;
+        }
+
+        const respond = (response: Partial<IResponseEvent>) => {
+            this.sendEvent<IResponseEvent>(
+                RESPONSE_EVENT,
+                { requestId: evt.requestId, ...response },
+                { toClientId: evt.clientId }
+            );
+        };
+        LiveEvent.verifyRolesAllowed(evt.clientId!, registered.allowedRoles)
+            .then(async (allowed) => {
+                if (!allowed) {
+                    throw new Error(
+                        `LiveEventScope: the caller of '${evt.method}' doesn't have an allowed role.`
+                    );
+                }
+
+                const result = await registered.handler(
+                    evt.args,
+                    evt.clientId!
+                );
+                respond({ result });
+            })
+            .catch((err) => {
+                respond({ error: err?.message ?? `${err}` });
+            });
+    }
+
+    private getTargetClientIds(
+        options?: ISendEventOptions
+    ): string[] | undefined {
+        if (
+            options?.toClientId == undefined &&
+            options?.toUserId == undefined
+        ) {
+            return undefined;
+        }
+
+        const clientIds: string[] = [];
+        if (Array.isArray(options.toClientId)) {
+            clientIds.push(...options.toClientId);
+        } else if (options.toClientId != undefined) {
+            clientIds.push(options.toClientId);
+        }
+
+        if (options.toUserId != undefined) {
+            if (!this.userResolver) {
+                throw new Error(
+                    `LiveEventScope: a userResolver is required to send events using toUserId.`
+                );
+            }
+
+            this.userResolver
+                .getClientIdsForUser(options.toUserId)
+                .forEach((clientId) => {
+                    if (clientIds.indexOf(clientId) < 0) {
+                        clientIds.push(clientId);
+                    }
+                });
+        }
+
+        return clientIds;
+    }
+
+    private dispatchEvent(
+        eventName: string,
+        evt: IInternalLiveEvent,
+        local: boolean
+    ): void {
+        // Acknowledge events sent using sendEventAndWait() and ignore duplicates
+        if (typeof evt.ackId == "string") {
+            const duplicate = this._receivedAckIds.indexOf(evt.ackId) >= 0;
+            if (!local && this.emitter.listenerCount(eventName) > 0) {
+                this.submitSignal(ACK_EVENT, { ackId: evt.ackId });
+            }
+
+            if (duplicate) {
+                return;
+            }
+
+            this._receivedAckIds.push(evt.ackId);
+            if (this._receivedAckIds.length > MAX_RECEIVED_ACK_IDS) {
+                this._receivedAckIds.shift();
+            }
+        }
+
+        this.emitter.emit(eventName, evt, local);
+    }
+}
+
+/**
+ * @hidden
+ * Delivery properties added to events by the scope.
+ */
+interface IInternalLiveEvent extends ILiveEvent {
+    ackId?: string;
+    targetClientIds?: string[];
+}
+
+/**
+ * @hidden
+ */
+interface IBatchedEvent {
+    type: string;
+    content: IInternalLiveEvent;
+    coalesceKey?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IQueuedEvent {
+    eventName: string;
+    evt: Partial<ILiveEvent>;
+    options?: ISendEventOptions;
+    expiresAt: number;
+    coalesceKey?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IRequestEvent extends ILiveEvent {
+    requestId: string;
+    method: string;
+    args?: any;
+}
+
+/**
+ * @hidden
+ */
+interface IResponseEvent extends ILiveEvent {
+    requestId: string;
+    result?: any;
+    error?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IPendingRequest {
+    toClientId: string;
+    responseReceived(evt: IResponseEvent): void;
+    cancel(err: Error): void;
 }
@@ -4,7 +4,12 @@
  */
 
 import { ILiveEvent } from "./interfaces";
-import { LiveEventScope } from "./LiveEventScope";
+import {
+    ISendEventAndWaitOptions,
+    ISendEventAndWaitResult,
+    ISendEventOptions,
+    LiveEventScope,
+} from "./LiveEventScope";
 
 /**
  * Broadcasts live share events to all clients and can be received by an `LiveEventTarget`.
@@ -15,8 +20,8 @@ import { LiveEventScope } from "./LiveEventScope";
  * @template TEvent Type of event to broadcast.
  */
 export class LiveEventSource<TEvent extends ILiveEvent = ILiveEvent> {
-    private _scope: LiveEventScope;
-    private _eventName: string;
+    protected readonly _scope: LiveEventScope;
+    protected readonly _eventName: string;
 
     /**
      * Creates a new `LiveEventSource` instance.
@@ -33,10 +38,31 @@ export class LiveEventSource<TEvent extends ILiveEvent = ILiveEvent> {
      * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
      * fields will be automatically populated prior to sending.
+     * @param options Optional. Options used to target the event to specific clients or users.
      * @returns The full event, including `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId` fields if known.
      */
-    public sendEvent(evt: Partial<TEvent> = {}): TEvent {
-        return this._scope.sendEvent(this._eventName, evt);
+    public sendEvent(
+        evt: Partial<TEvent> = {},
+        options?: ISendEventOptions
+    ): TEvent {
+        return this._scope.sendEvent(this._eventName, evt, options);
+    }
+
+    /**
+     * Broadcasts an event to any listening `LiveEventTarget` instances and waits for them to
+     * acknowledge it.
+     * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
+     * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
+     * fields will be automatically populated prior to sending.
+     * @param options Optional. Options controlling who the event is sent to and how long to
+     * wait for and retry the event.
+     * @returns The full event that was sent and the list of clients that acknowledged it.
+     */
+    public sendEventAndWait(
+        evt: Partial<TEvent> = {},
+        options?: ISendEventAndWaitOptions
+    ): Promise<ISendEventAndWaitResult<TEvent>> {
+        return this._scope.sendEventAndWait(this._eventName, evt, options);
     }
 }
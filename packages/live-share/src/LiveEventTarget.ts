@@ -3,7 +3,11 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { LiveEventScope, LiveEventListener } from "./LiveEventScope";
+import {
+    LiveEventScope,
+    LiveEventListener,
+    LiveEventValidator,
+} from "./LiveEventScope";
 import { LiveEventSource } from "./LiveEventSource";
 import { ILiveEvent } from "./interfaces";
 
@@ -33,4 +37,19 @@ export class LiveEventTarget<
         super(scope, eventName);
         scope.onEvent(eventName, listener);
     }
+
+    /**
+     * Registers a validator for incoming events.
+     *
+     * @remarks
+     * Remote events that fail validation are dropped and reported by the scopes `invalidEvent`
+     * event.
+     * @param validator Function or schema used to validate events. Pass `undefined` to remove
+     * the current validator.
+     */
+    public setValidator(
+        validator: LiveEventValidator<TEvent> | undefined
+    ): void {
+        this._scope.setEventValidator(this._eventName, validator);
+    }
 }
@@ -3,8 +3,14 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
 import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
-import { IRuntimeSignaler } from "./LiveEventScope";
+import { IRuntimeSignaler, LiveEventScope } from "./LiveEventScope";
+import { SignalChunker, SignalTransport, TelemetryEvents } from "./internals";
+import { LiveEvent } from "./LiveEvent";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import { UserMeetingRole } from "./interfaces";
 
 /**
  * Callback function used to the get the current state of an live object that's being
@@ -23,12 +29,73 @@ export type GetSynchronizationState<TState extends object> = (
  * @param connecting If true a "connect" message was received and `state` represents the remote objects initial state.
  * @param state The remote object initial or current state.
  * @param senderId The clientId of the sender provider for role verification purposes.
+ * @returns Optional. `false`, or a promise that resolves to `false`, if the state was rejected and should be requested from the sender again.
  */
 export type UpdateSynchronizationState<TState extends object> = (
     connecting: boolean,
     state: TState | undefined,
     senderId: string
-) => void;
+) => void | boolean | Promise<void | boolean>;
+
+/**
+ * Policy used to scale the interval of periodic updates with the number of clients connected
+ * to a container.
+ */
+export interface IAdaptiveUpdateInterval {
+    /**
+     * Number of connected clients the base `LiveObjectSynchronizer.updateInterval` is sized for.
+     * The interval grows linearly once more clients than this are connected.
+     */
+    clientsPerInterval: number;
+
+    /**
+     * Maximum interval, in milliseconds, between periodic updates.
+     */
+    maxUpdateInterval: number;
+
+    /**
+     * Fraction of the interval, between 0 and 1, that each update is randomly shifted by so
+     * that clients don't send their updates in lockstep.
+     */
+    jitter: number;
+}
+
+/**
+ * A remote instance of a live object.
+ */
+export interface ILivePeer {
+    /**
+     * ID of the peers client.
+     */
+    clientId: string;
+
+    /**
+     * Local time, in milliseconds, that state was last received from the peer.
+     */
+    lastSeen: number;
+}
+
+/**
+ * Events supported by `LiveObjectSynchronizer`.
+ */
+export interface ILiveObjectSynchronizerEvents extends IEvent {
+    /**
+     * A remote instance of the object sent its state for the first time.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.peer The peer that joined.
+     */
+    (event: "peerJoined", listener: (peer: ILivePeer) => void): any;
+
+    /**
+     * A remote instance of the object stopped sending its state for longer than the
+     * synchronizers `peerTimeout`.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.peer The peer that left.
+     */
+    (event: "peerLeft", listener: (peer: ILivePeer) => void): any;
+}
 
 /**
  * Duck type of something that provides the expected signalling functionality at the container level.
@@ -38,6 +105,8 @@ export type UpdateSynchronizationState<TState extends object> = (
  * just pass `this.context.containerRuntime` to any class that takes an `IContainerRuntimeSignaler`.
  */
 export interface IContainerRuntimeSignaler {
+    readonly clientId?: string;
+    getAudience?(): { getMembers(): Map<string, any> };
     on(
         event: "signal",
         listener: (message: IInboundSignalMessage, local: boolean) => void
@@ -63,11 +132,25 @@ export interface IContainerRuntimeSignaler {
  * using `LiveEvent.isNewer` to compare the received update with the current update makes this
  * simple.
  *
+ * When `allowedRoles` are specified, the senders roles are verified before the `updateState`
+ * callback is called and updates from senders without one of the roles are ignored.
+ *
  * Once the initial "connect" event is sent, the synchronizer will periodically broadcast additional
- * "update" events containing the live objects current state. This redundancy helps to guard
- * against missed events and can be used as a ping for scenarios like presence where users can
- * disconnect from the container without notice.  The rate at which these ping events are sent can be
- * adjusted globally by setting the static `LiveObjectSynchronizer.updateInterval` property.
+ * "update" events containing the state of any live objects whose state has changed since it was
+ * last sent. Objects whose state hasn't changed are included in a lightweight "heartbeat" event
+ * containing a version of their state instead. Receivers that detect a version they haven't
+ * accepted request a resync from the sender, which responds with the objects full state. Every
+ * few intervals the full state of all objects is sent regardless, for clients running earlier
+ * versions that don't understand heartbeats. This redundancy helps to guard against missed
+ * events and can be used as a ping for scenarios like presence where users can disconnect from
+ * the container without notice. The rate at which these ping events are sent can be adjusted
+ * globally by setting the static `LiveObjectSynchronizer.updateInterval` property. Apps can also
+ * opt into growing this interval with the number of clients connected to the container, see
+ * `LiveObjectSynchronizer.adaptiveUpdateInterval`.
+ *
+ * The synchronizer also tracks which peers have recently sent state for the object. A
+ * `"peerJoined"` event is raised when a peer first sends its state and a `"peerLeft"` event is
+ * raised once the peer has been silent for longer than the synchronizers `peerTimeout`.
  *
  * While each new synchronizer instance will result in a separate "connect" message being sent, the
  * periodic updates that are sent get batched together into a single "update" message. This lets apps
@@ -78,9 +161,12 @@ export interface IContainerRuntimeSignaler {
  * synchronizer for the same live object will result in an exception being raised.
  * @template TState Type of state object being synchronized. This object should be a simple JSON object that uses only serializable primitives.
  */
-export class LiveObjectSynchronizer<TState extends object> {
+export class LiveObjectSynchronizer<
+    TState extends object
+> extends TypedEventEmitter<ILiveObjectSynchronizerEvents> {
     private readonly _id: string;
     private readonly _containerRuntime: IContainerRuntimeSignaler;
+    private readonly _peers = new Map<string, number>();
     private _isDisposed = false;
 
     /**
@@ -94,23 +180,73 @@ export class LiveObjectSynchronizer<TState extends object> {
      * @param containerRuntime The runtime for the objects container. This should be the value of `this.context.containerRuntime`.
      * @param getState A function called to retrieve the objects current state. This will be called prior to a "connect" or "update" message being sent.
      * @param updateState A function called to process a state update received from a remote instance. This will be called anytime a "connect" or "update" message is received.
+     * @param allowedRoles Optional. List of roles allowed to send state updates. Updates from other senders are ignored.
      */
     constructor(
         id: string,
         runtime: IRuntimeSignaler,
         containerRuntime: IContainerRuntimeSignaler,
         getState: GetSynchronizationState<TState>,
-        updateState: UpdateSynchronizationState<TState>
+        updateState: UpdateSynchronizationState<TState>,
+        allowedRoles?: UserMeetingRole[]
     ) {
+        super();
         this._id = id;
         this._containerRuntime = containerRuntime;
 
+        // Stop synchronizing once the objects runtime is disposed of
+        runtime.on("dispose", () => this.dispose());
+
         LiveObjectSynchronizer.registerObject<TState>(
             runtime,
             containerRuntime,
             id,
-            { getState, updateState }
+            {
+                getState,
+                updateState,
+                allowedRoles: allowedRoles || [],
+                peerSeen: (clientId, refreshOnly) =>
+                    this.peerSeen(clientId, refreshOnly),
+                checkPeers: () => this.checkPeers(),
+            }
+        );
+    }
+
+    /**
+     * The current interval, in milliseconds, between periodic updates for the objects container.
+     *
+     * @remarks
+     * This is the base `LiveObjectSynchronizer.updateInterval` adjusted for the number of clients
+     * connected to the container.
+     */
+    public get currentUpdateInterval(): number {
+        const synchronizer = LiveObjectSynchronizer._synchronizers.get(
+            this._containerRuntime
+        );
+        return synchronizer
+            ? synchronizer.updateInterval
+            : LiveObjectSynchronizer.updateInterval;
+    }
+
+    /**
+     * Number of milliseconds without a state update or heartbeat before a peer is considered to
+     * have left.
+     *
+     * @remarks
+     * Defaults to `undefined` which waits for 3 of the containers current update intervals.
+     */
+    public peerTimeout: number | undefined;
+
+    /**
+     * Returns the peers that have recently sent state for the object.
+     */
+    public getPeers(): ILivePeer[] {
+        this.checkPeers();
+        const peers: ILivePeer[] = [];
+        this._peers.forEach((lastSeen, clientId) =>
+            peers.push({ clientId, lastSeen })
         );
+        return peers;
     }
 
     /**
@@ -122,6 +258,7 @@ export class LiveObjectSynchronizer<TState extends object> {
     public dispose(): void {
         if (!this._isDisposed) {
             this._isDisposed = true;
+            this._peers.clear();
             LiveObjectSynchronizer.unregisterObject(
                 this._containerRuntime,
                 this._id
@@ -129,8 +266,64 @@ export class LiveObjectSynchronizer<TState extends object> {
         }
     }
 
+    private peerSeen(clientId: string, refreshOnly: boolean): void {
+        if (this._peers.has(clientId)) {
+            // Move peer to end of list
+            this._peers.delete(clientId);
+            this._peers.set(clientId, new Date().getTime());
+        } else if (!refreshOnly) {
+            const lastSeen = new Date().getTime();
+            this._peers.set(clientId, lastSeen);
+            this.emit("peerJoined", { clientId, lastSeen });
+        }
+    }
+
+    private checkPeers(): void {
+        // Peers are ordered by when they were last seen
+        const timeout =
+            this.peerTimeout ??
+            this.currentUpdateInterval * PEER_TIMEOUT_INTERVALS;
+        const now = new Date().getTime();
+        for (const [clientId, lastSeen] of this._peers) {
+            if (now - lastSeen <= timeout) {
+                break;
+            }
+
+            this._peers.delete(clientId);
+            this.emit("peerLeft", { clientId, lastSeen });
+        }
+    }
+
     public static updateInterval = 5000;
 
+    /**
+     * Policy used to scale the `updateInterval` with the number of connected clients.
+     *
+     * @remarks
+     * Defaults to `undefined` which always uses the fixed `updateInterval`. The number of
+     * connected clients is read from the containers audience when available and otherwise
+     * estimated from the clients that updates have recently been received from. Only enable
+     * this once every client in a session scales its presence expiration with the interval, as
+     * clients running earlier versions expire users that update less often than they expect.
+     */
+    public static adaptiveUpdateInterval: IAdaptiveUpdateInterval | undefined;
+
+    /**
+     * Returns the interval, excluding jitter, between periodic updates for a given number of
+     * connected clients.
+     * @param connectedClients Number of clients connected to the container.
+     */
+    public static getUpdateInterval(connectedClients: number): number {
+        const base = this.updateInterval;
+        const policy = this.adaptiveUpdateInterval;
+        if (!policy || policy.clientsPerInterval <= 0) {
+            return base;
+        }
+
+        const scale = Math.max(connectedClients / policy.clientsPerInterval, 1);
+        return Math.min(base * scale, Math.max(policy.maxUpdateInterval, base));
+    }
+
     private static _synchronizers = new Map<any, ContainerSynchronizer>();
 
     private static registerObject<TState extends object>(
@@ -169,16 +362,66 @@ export class LiveObjectSynchronizer<TState extends object> {
 
 const CONNECT_EVENT = "connect";
 const UPDATE_EVENT = "update";
+const HEARTBEAT_EVENT = "heartbeat";
+const RESYNC_EVENT = "resync";
+
+/**
+ * Maximum number of received object versions to track.
+ */
+const MAX_RECEIVED_VERSIONS = 5000;
+
+/**
+ * Number of update intervals between updates that include the full state of every object.
+ * Clients running earlier versions don't understand heartbeats and expect periodic updates.
+ */
+const FULL_UPDATE_INTERVALS = 3;
+
+/**
+ * Number of update intervals after which a silent client is no longer counted as connected.
+ */
+const CLIENT_EXPIRATION_INTERVALS = 3;
+
+/**
+ * Default number of update intervals after which a silent peer is considered to have left.
+ */
+const PEER_TIMEOUT_INTERVALS = 3;
 
 interface GetAndUpdateStateHandlers<TState extends object> {
     getState: GetSynchronizationState<TState>;
     updateState: UpdateSynchronizationState<TState>;
+    allowedRoles: UserMeetingRole[];
+    peerSeen: (clientId: string, refreshOnly: boolean) => void;
+    checkPeers: () => void;
 }
 
 interface StateSyncEventContent {
     [id: string]: object | undefined;
 }
 
+interface HeartbeatEventContent {
+    [id: string]: string;
+}
+
+interface ResyncEventContent {
+    clientId: string;
+    ids: string[];
+}
+
+/**
+ * Returns a version identifying the contents of an objects state.
+ */
+function getStateVersion(state: object): string {
+    // 32-bit FNV-1a hash of the serialized state
+    const json = JSON.stringify(state);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < json.length; i++) {
+        hash ^= json.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0).toString(16);
+}
+
 class ContainerSynchronizer {
     private readonly _runtime: IRuntimeSignaler;
     private readonly _containerRuntime: IContainerRuntimeSignaler;
@@ -190,6 +433,15 @@ class ContainerSynchronizer {
     private _connectedKeys: string[] = [];
     private _refCount = 0;
     private _hTimer: any;
+    private _updateCount = 0;
+    private readonly _sentVersions = new Map<string, string>();
+    private readonly _receivedVersions = new Map<string, string>();
+    private readonly _resyncRequests = new Map<string, number>();
+    private readonly _resyncReplies = new Map<string, number>();
+    private readonly _lastSeen = new Map<string, number>();
+    private _updateInterval = LiveObjectSynchronizer.updateInterval;
+    private readonly _transport: SignalTransport;
+    private readonly _logger: LiveTelemetryLogger;
 
     constructor(
         runtime: IRuntimeSignaler,
@@ -212,29 +464,43 @@ class ContainerSynchronizer {
 
         // Listen for a global CONNECT/UPDATE event to be received
         this._containerRuntime = containerRuntime;
+        this._logger = new LiveTelemetryLogger(runtime);
+        this._transport = new SignalTransport(
+            (type, content) => containerRuntime.submitSignal(type, content),
+            this._logger,
+            () => LiveEvent.getSignalEncryptor(),
+            () => containerRuntime.clientId ?? runtime.clientId
+        );
         this._containerRuntime.on("signal", (message, local) => {
             // Ignore local signals
-            if (!local && typeof message.content == "object") {
-                switch (message.type) {
-                    case CONNECT_EVENT:
-                        this.dispatchUpdates(
-                            message.clientId!,
-                            message.content,
-                            true
-                        );
-                        break;
-                    case UPDATE_EVENT:
-                        this.dispatchUpdates(
-                            message.clientId!,
-                            message.content,
-                            false
-                        );
-                        break;
+            if (!local) {
+                if (message.clientId) {
+                    this._lastSeen.set(message.clientId, new Date().getTime());
                 }
+
+                this._transport.receive(
+                    message,
+                    local,
+                    LiveEventScope.maxPayloadSize,
+                    LiveEventScope.maxSignalSize,
+                    (type, content) => {
+                        if (typeof content == "object") {
+                            this.dispatchSignal(
+                                type,
+                                content,
+                                message.clientId!
+                            );
+                        }
+                    }
+                );
             }
         });
     }
 
+    public get updateInterval(): number {
+        return this._updateInterval;
+    }
+
     public registerObject(
         id: string,
         handlers: GetAndUpdateStateHandlers<object>
@@ -254,7 +520,7 @@ class ContainerSynchronizer {
             const connectState: StateSyncEventContent = {
                 [id]: handlers.getState(true),
             };
-            this._containerRuntime.submitSignal(CONNECT_EVENT, connectState);
+            this.submitSignal(CONNECT_EVENT, connectState);
             this._connectedKeys.push(id);
         } else {
             // Queue connect event
@@ -263,15 +529,7 @@ class ContainerSynchronizer {
 
         // Start update timer on first ref
         if (this._refCount++ == 0) {
-            this._hTimer = setInterval(() => {
-                try {
-                    this.sendGroupEvent(this._connectedKeys, UPDATE_EVENT);
-                } catch (err: any) {
-                    console.error(
-                        `LiveObjectSynchronizer: error sending update - ${err.toString()}`
-                    );
-                }
-            }, LiveObjectSynchronizer.updateInterval);
+            this.scheduleUpdate();
         }
     }
 
@@ -282,7 +540,7 @@ class ContainerSynchronizer {
 
             // Stop update timer on last de-ref
             if (--this._refCount == 0) {
-                clearInterval(this._hTimer);
+                clearTimeout(this._hTimer);
                 this._hTimer = undefined;
                 return true;
             }
@@ -299,15 +557,81 @@ class ContainerSynchronizer {
         return false;
     }
 
-    private sendGroupEvent(keys: string[], evt: string): void {
+    private scheduleUpdate(): void {
+        // Scale interval with audience size and add jitter
+        this._updateInterval = LiveObjectSynchronizer.getUpdateInterval(
+            this.getConnectedClients()
+        );
+        const jitter =
+            LiveObjectSynchronizer.adaptiveUpdateInterval?.jitter ?? 0;
+        const delay =
+            this._updateInterval * (1 + jitter * (Math.random() * 2 - 1));
+        this._hTimer = setTimeout(() => {
+            try {
+                this._objects.forEach((handlers) => handlers.checkPeers());
+
+                // Updates sent while disconnected would be dropped
+                if (this._runtime.connected) {
+                    const changesOnly =
+                        ++this._updateCount % FULL_UPDATE_INTERVALS != 0;
+                    this.sendGroupEvent(
+                        this._connectedKeys,
+                        UPDATE_EVENT,
+                        changesOnly
+                    );
+                }
+            } catch (err: any) {
+                console.error(
+                    `LiveObjectSynchronizer: error sending update - ${err.toString()}`
+                );
+            }
+
+            if (this._refCount > 0) {
+                this.scheduleUpdate();
+            }
+        }, delay);
+    }
+
+    private getConnectedClients(): number {
+        // Forget clients that haven't been heard from recently
+        const now = new Date().getTime();
+        const expiration = this._updateInterval * CLIENT_EXPIRATION_INTERVALS;
+        this._lastSeen.forEach((seen, clientId) => {
+            if (now - seen > expiration) {
+                this._lastSeen.delete(clientId);
+            }
+        });
+
+        const audience = this._containerRuntime.getAudience?.();
+        if (audience) {
+            return Math.max(audience.getMembers().size, 1);
+        }
+
+        // Count the local client and any clients recently heard from
+        return this._lastSeen.size + 1;
+    }
+
+    private sendGroupEvent(
+        keys: string[],
+        evt: string,
+        changesOnly = false
+    ): void {
         // Compose list of updates
         const updates: StateSyncEventContent = {};
+        const heartbeats: HeartbeatEventContent = {};
         keys.forEach((id) => {
             try {
                 // Ignore components that return undefined
                 const state = this._objects.get(id)?.getState(false);
                 if (typeof state == "object") {
-                    updates[id] = state;
+                    // Only send the version of unchanged states
+                    const version = getStateVersion(state);
+                    if (changesOnly && this._sentVersions.get(id) == version) {
+                        heartbeats[id] = version;
+                    } else {
+                        updates[id] = state;
+                        this._sentVersions.set(id, version);
+                    }
                 }
             } catch (err: any) {
                 console.error(
@@ -319,7 +643,117 @@ class ContainerSynchronizer {
         // Send event if we have any updates to broadcast
         // - `send` is only set if at least one component returns an update.
         if (Object.keys(updates).length > 0) {
-            this._containerRuntime.submitSignal(evt, updates);
+            this.submitSignal(evt, updates);
+        }
+
+        if (Object.keys(heartbeats).length > 0) {
+            this.submitSignal(HEARTBEAT_EVENT, heartbeats);
+        }
+    }
+
+    private submitSignal(type: string, content: object): void {
+        const size = SignalChunker.getPayloadSize(content);
+        if (size > LiveEventScope.maxPayloadSize) {
+            console.error(
+                `LiveObjectSynchronizer: '${type}' message of ${size} bytes exceeds the maxPayloadSize of ${LiveEventScope.maxPayloadSize} bytes.`
+            );
+            return;
+        }
+
+        this._transport.send(type, content, LiveEventScope.maxSignalSize);
+    }
+
+    private dispatchSignal(type: string, content: any, senderId: string): void {
+        switch (type) {
+            case CONNECT_EVENT:
+                this.dispatchUpdates(senderId, content, true);
+                break;
+            case UPDATE_EVENT:
+                this.dispatchUpdates(senderId, content, false);
+                break;
+            case HEARTBEAT_EVENT:
+                this.checkVersions(senderId, content);
+                break;
+            case RESYNC_EVENT:
+                this.resyncRequested(senderId, content);
+                break;
+        }
+    }
+
+    private checkVersions(
+        senderId: string,
+        heartbeats: HeartbeatEventContent
+    ): void {
+        // Find objects whose latest state hasn't been received
+        const now = new Date().getTime();
+        const ids: string[] = [];
+        for (const id in heartbeats) {
+            // Heartbeats keep peers that have already sent state alive
+            this._objects.get(id)?.peerSeen(senderId, true);
+
+            const key = `${senderId}:${id}`;
+            if (
+                this._objects.has(id) &&
+                this._receivedVersions.get(key) != heartbeats[id] &&
+                now - (this._resyncRequests.get(key) ?? 0) >=
+                    this._updateInterval
+            ) {
+                ids.push(id);
+                this._resyncRequests.set(key, now);
+            }
+        }
+
+        // Forget old requests
+        this._resyncRequests.forEach((requested, key) => {
+            if (now - requested >= this._updateInterval) {
+                this._resyncRequests.delete(key);
+            }
+        });
+
+        if (ids.length > 0) {
+            const resync: ResyncEventContent = { clientId: senderId, ids };
+            this.submitSignal(RESYNC_EVENT, resync);
+        }
+    }
+
+    private resyncRequested(
+        requesterId: string,
+        resync: ResyncEventContent
+    ): void {
+        const clientId =
+            this._containerRuntime.clientId ?? this._runtime.clientId;
+        if (resync.clientId == clientId && Array.isArray(resync.ids)) {
+            // Reply to each requester at most once per update interval
+            const now = new Date().getTime();
+            this._resyncReplies.forEach((replied, key) => {
+                if (now - replied >= this._updateInterval) {
+                    this._resyncReplies.delete(key);
+                }
+            });
+            if (this._resyncReplies.has(requesterId)) {
+                return;
+            }
+            this._resyncReplies.set(requesterId, now);
+
+            const keys = this._connectedKeys.filter(
+                (id) => resync.ids.indexOf(id) >= 0
+            );
+            this.sendGroupEvent(keys, UPDATE_EVENT);
+        }
+    }
+
+    private setReceivedVersion(
+        senderId: string,
+        id: string,
+        state: object
+    ): void {
+        const key = `${senderId}:${id}`;
+        this._receivedVersions.delete(key);
+        this._receivedVersions.set(key, getStateVersion(state));
+        if (this._receivedVersions.size > MAX_RECEIVED_VERSIONS) {
+            // Forget the least recently updated version
+            const oldest = this._receivedVersions.keys().next().value;
+            this._receivedVersions.delete(oldest);
         }
     }
 
@@ -333,16 +767,56 @@ class ContainerSynchronizer {
             // Dispatch received state update
             const handlers = this._objects.get(id);
             if (handlers) {
-                try {
-                    keys.push(id);
-                    const state = updates[id];
-                    if (typeof state == "object") {
-                        handlers.updateState(connecting, state, senderId);
+                keys.push(id);
+                const state = updates[id];
+                if (typeof state == "object") {
+                    if (handlers.allowedRoles.length > 0) {
+                        // Verify sender is allowed to update the object
+                        LiveEvent.verifyRolesAllowed(
+                            senderId,
+                            handlers.allowedRoles
+                        )
+                            .then((allowed) => {
+                                if (allowed) {
+                                    this.updateState(
+                                        handlers,
+                                        id,
+                                        state,
+                                        senderId,
+                                        connecting
+                                    );
+                                } else {
+                                    // Heartbeats from senders without an allowed role
+                                    // shouldn't trigger resyncs
+                                    this.setReceivedVersion(
+                                        senderId,
+                                        id,
+                                        state
+                                    );
+                                    this._logger.sendTelemetryEvent(
+                                        TelemetryEvents.LiveObjectSynchronizer
+                                            .UpdateDenied,
+                                        undefined,
+                                        { senderId, objectId: id }
+                                    );
+                                }
+                            })
+                            .catch((err) => {
+                                this._logger.sendErrorEvent(
+                                    TelemetryEvents.LiveObjectSynchronizer
+                                        .RoleVerificationError,
+                                    err
+                                );
+                            });
+                    } else {
+                        this.updateState(
+                            handlers,
+                            id,
+                            state,
+                            senderId,
+                            connecting
+                        );
                     }
-                } catch (err: any) {
-                    console.error(
-                        `LiveObjectSynchronizer: error processing received update - ${err.toString()}`
-                    );
                 }
             }
         }
@@ -352,4 +826,31 @@ class ContainerSynchronizer {
             this.sendGroupEvent(keys, UPDATE_EVENT);
         }
     }
+
+    private updateState(
+        handlers: GetAndUpdateStateHandlers<object>,
+        id: string,
+        state: object,
+        senderId: string,
+        connecting: boolean
+    ): void {
+        const onError = (err: any) => {
+            console.error(
+                `LiveObjectSynchronizer: error processing received update - ${err.toString()}`
+            );
+        };
+        try {
+            handlers.peerSeen(senderId, false);
+            Promise.resolve(handlers.updateState(connecting, state, senderId))
+                .then((accepted) => {
+                    // Only record accepted states so rejected ones are requested again
+                    if (accepted !== false) {
+                        this.setReceivedVersion(senderId, id, state);
+                    }
+                })
+                .catch(onError);
+        } catch (err: any) {
+            onError(err);
+        }
+    }
 }
@@ -5,7 +5,13 @@
 
 import { DataObject, DataObjectFactory } from "@fluidframework/aqueduct";
 import { IEvent } from "@fluidframework/common-definitions";
-import { LiveEventScope } from "./LiveEventScope";
+import {
+    IInvalidEventDetails,
+    ILiveEventSchema,
+    IUserClientResolver,
+    LiveEventScope,
+    LiveEventValidator,
+} from "./LiveEventScope";
 import { LiveEventTarget } from "./LiveEventTarget";
 import {
     LivePresenceUser,
@@ -27,6 +33,11 @@ export enum LivePresenceEvents {
      * The presence for the local or a remote user has changed.
      */
     presenceChanged = "presenceChanged",
+
+    /**
+     * A malformed presence update was received and ignored.
+     */
+    invalidEvent = "invalidEvent",
 }
 
 /**
@@ -46,17 +57,62 @@ export interface ILivePresenceEvents<TData extends object = object>
         event: "presenceChanged",
         listener: (user: LivePresenceUser<TData>, local: boolean) => void
     ): any;
+
+    /**
+     * A malformed presence update was received from another client and ignored.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.details Details of the event that was ignored.
+     */
+    (
+        event: "invalidEvent",
+        listener: (details: IInvalidEventDetails) => void
+    ): any;
 }
 
+/**
+ * Schema used to validate incoming presence updates. The `data` property is validated using
+ * the objects `dataValidator`.
+ */
+const UPDATE_PRESENCE_SCHEMA: ILiveEventSchema = {
+    type: "object",
+    required: ["name", "timestamp", "userId", "state"],
+    properties: {
+        name: { type: "string" },
+        timestamp: { type: "number" },
+        userId: { type: "string" },
+        state: {
+            enum: [
+                PresenceState.online,
+                PresenceState.away,
+                PresenceState.offline,
+            ],
+        },
+    },
+};
+
+/**
+ * Minimum number of update intervals a remote user is kept online for without an update.
+ */
+const EXPIRATION_UPDATE_INTERVALS = 3;
+
 /**
  * Live fluid object that synchronizes presence information for the user with other clients.
+ *
+ * @remarks
+ * Can be used as the `userResolver` for an `LiveEvent` or `LiveEventScope` to send events to
+ * all of the clients for a specific user.
  * @template TData Type of data object to share with clients.
  */
-export class LivePresence<TData extends object = object> extends DataObject<{
-    Events: ILivePresenceEvents<TData>;
-}> {
+export class LivePresence<TData extends object = object>
+    extends DataObject<{
+        Events: ILivePresenceEvents<TData>;
+    }>
+    implements IUserClientResolver
+{
     private _logger = new LiveTelemetryLogger(this.runtime);
     private _expirationPeriod = new TimeInterval(20000);
+    private _effectiveExpirationPeriod = new TimeInterval(20000);
     private _users: LivePresenceUser<TData>[] = [];
     private _currentPresence: ILivePresenceEvent<TData> = {
         name: "UpdatePresence",
@@ -69,6 +125,7 @@ export class LivePresence<TData extends object = object> extends DataObject<{
     private _scope?: LiveEventScope;
     private _updatePresenceEvent?: LiveEventTarget<ILivePresenceEvent<TData>>;
     private _synchronizer?: LiveObjectSynchronizer<ILivePresenceEvent<TData>>;
+    private _dataValidator?: LiveEventValidator<TData>;
 
     /**
      * The objects fluid type/name.
@@ -105,6 +162,9 @@ export class LivePresence<TData extends object = object> extends DataObject<{
      *
      * @remarks
      * Defaults to a value of `20` seconds. The minimum value is 0.1 seconds for testing purposes.
+     *
+     * The period is automatically extended while the containers update interval has grown
+     * large enough that remote users would otherwise be considered offline between updates.
      */
     public get expirationPeriod(): number {
         return this._expirationPeriod.seconds;
@@ -112,6 +172,24 @@ export class LivePresence<TData extends object = object> extends DataObject<{
 
     public set expirationPeriod(value: number) {
         this._expirationPeriod.seconds = value > 0.1 ? value : 0.1;
+        this.updateExpirationPeriod();
+    }
+
+    /**
+     * Optional. Validator used to verify the data object of presence updates received from
+     * other clients.
+     *
+     * @remarks
+     * Presence updates that fail validation are ignored and reported using the `invalidEvent`
+     * event. The shape of the presence update itself is always validated.
+     */
+    public get dataValidator(): LiveEventValidator<TData> | undefined {
+        return this._dataValidator;
+    }
+
+    public set dataValidator(value: LiveEventValidator<TData> | undefined) {
+        this._dataValidator = value;
+        this.updateValidator();
     }
 
     /**
@@ -174,6 +252,10 @@ export class LivePresence<TData extends object = object> extends DataObject<{
                 }
             }
         );
+        this._scope.on("invalidEvent", (details) =>
+            this.emit(LivePresenceEvents.invalidEvent, details)
+        );
+        this.updateValidator();
 
         // Create object synchronizer
         this._synchronizer = new LiveObjectSynchronizer<
@@ -189,13 +271,18 @@ export class LivePresence<TData extends object = object> extends DataObject<{
                 //   the timestamp of the outgoing update is the best way to show proof that the client
                 //   is still alive.
                 this._currentPresence.timestamp = LiveEvent.getTimestamp();
+                this.updateExpirationPeriod();
 
                 // Return current presence
                 return this._currentPresence;
             },
             (connecting, state, sender) => {
                 // Add user to list
-                this.updateMembersList(state!, false);
+                if (
+                    this._scope!.validateEvent("UpdatePresence", state, sender)
+                ) {
+                    this.updateMembersList(state!, false);
+                }
             }
         );
 
@@ -239,11 +326,15 @@ export class LivePresence<TData extends object = object> extends DataObject<{
         // Ensure socket is connected
         this.waitUntilConnected().then((clientId) => {
             // Broadcast state change
-            const evt = this._updatePresenceEvent!.sendEvent({
-                userId: this._currentPresence.userId,
-                state: state ?? this._currentPresence.state,
-                data: cloneValue(data) ?? this._currentPresence.data,
-            });
+            // - Only the latest presence matters so coalesce any batched updates.
+            const evt = this._updatePresenceEvent!.sendEvent(
+                {
+                    userId: this._currentPresence.userId,
+                    state: state ?? this._currentPresence.state,
+                    data: cloneValue(data) ?? this._currentPresence.data,
+                },
+                { coalesce: true }
+            );
 
             evt.clientId = clientId;
 
@@ -329,6 +420,27 @@ export class LivePresence<TData extends object = object> extends DataObject<{
         return undefined;
     }
 
+    /**
+     * Returns the list of client ID's a user has been seen using.
+     * @param userId The ID of the user to lookup.
+     * @returns The users client ID's or an empty list if the user hasn't connected to the space.
+     */
+    public getClientIdsForUser(userId: string): string[] {
+        return this.getPresenceForUser(userId)?.getClientIds() ?? [];
+    }
+
+    private updateValidator(): void {
+        if (this._updatePresenceEvent) {
+            this._updatePresenceEvent.setValidator({
+                ...UPDATE_PRESENCE_SCHEMA,
+                properties: {
+                    ...UPDATE_PRESENCE_SCHEMA.properties,
+                    data: this._dataValidator ?? { type: "object" },
+                },
+            });
+        }
+    }
+
     private updateMembersList(
         evt: ILivePresenceEvent<TData>,
         local: boolean
@@ -370,13 +482,24 @@ export class LivePresence<TData extends object = object> extends DataObject<{
         // Insert new user and send change event
         const newUser = new LivePresenceUser<TData>(
             evt,
-            this._expirationPeriod,
+            this._effectiveExpirationPeriod,
             evt.userId == this._currentPresence.userId
         );
         this._users.splice(pos, 0, newUser);
         emitEvent(newUser);
     }
 
+    private updateExpirationPeriod(): void {
+        // Ensure users don't expire between the updates they're sending
+        const updateInterval = this._synchronizer
+            ? this._synchronizer.currentUpdateInterval
+            : LiveObjectSynchronizer.updateInterval;
+        this._effectiveExpirationPeriod.milliseconds = Math.max(
+            this._expirationPeriod.milliseconds,
+            updateInterval * EXPIRATION_UPDATE_INTERVALS
+        );
+    }
+
     private waitUntilConnected(): Promise<string> {
         return new Promise((resolve) => {
             const onConnected = (clientId: string) => {
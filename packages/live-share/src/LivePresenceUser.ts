@@ -100,6 +100,13 @@ export class LivePresenceUser<TData = object> {
         }
     }
 
+    /**
+     * Returns the list of client ID's the user has been seen using.
+     */
+    public getClientIds(): string[] {
+        return this._clients.slice();
+    }
+
     /**
      * Returns true if the presence object is from the specified client.
      * @param clientId The ID of the client to lookup.
@@ -3,54 +3,59 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { LiveShareTokenProvider, RoleVerifier } from "./internals";
+import { RoleVerifier } from "./internals";
 import {
-    AzureClient,
     AzureConnectionConfig,
-    AzureRemoteConnectionConfig,
     AzureContainerServices,
     ITelemetryBaseLogger,
-    IUser,
 } from "@fluidframework/azure-client";
 import { ContainerSchema, IFluidContainer } from "@fluidframework/fluid-static";
+import { ConnectionState } from "fluid-framework";
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
 import { LiveEvent } from "./LiveEvent";
+import { ILiveEventOfflineQueue, LiveEventScope } from "./LiveEventScope";
 import {
     ILiveShareHost,
     ContainerState,
     ITimestampProvider,
+    LiveConnectionState,
+    ILiveShareContainerServices,
+    ILiveShareServiceAdapter,
+    IRoleVerifier,
+    ISignalEncryptor,
 } from "./interfaces";
-import { TestLiveShareHost } from "./TestLiveShareHost";
 import { HostTimestampProvider } from "./HostTimestampProvider";
-import { InsecureTokenProvider } from "@fluidframework/test-client-utils";
+import { HostSignalEncryptor } from "./HostSignalEncryptor";
 import { TimestampProvider } from "./TimestampProvider";
-
-/**
- * @hidden
- * Map v0.59 orderer endpoints to new v1.0 service endpoints
- */
-const ordererEndpointMap = new Map<string, string>()
-    .set(
-        "https://alfred.westus2.fluidrelay.azure.com",
-        "https://us.fluidrelay.azure.com"
-    )
-    .set(
-        "https://alfred.westeurope.fluidrelay.azure.com",
-        "https://eu.fluidrelay.azure.com"
-    )
-    .set(
-        "https://alfred.southeastasia.fluidrelay.azure.com",
-        "https://global.fluidrelay.azure.com"
-    );
+import { LocalRoleVerifier } from "./LocalRoleVerifier";
+import { LocalTimestampProvider } from "./LocalTimestampProvider";
+import { AzureServiceAdapter } from "./AzureServiceAdapter";
+import { RetryPolicy } from "./RetryPolicy";
 
 /**
  * Options used to configure the `TeamsFluidClient` class.
  */
-export interface ILiveShareClientOptions {
+export interface ILiveShareClientOptions<
+    TServices extends ILiveShareContainerServices = AzureContainerServices
+> {
     /**
      * Optional. Configuration to use when connecting to a custom Azure Fluid Relay instance.
+     *
+     * @remarks
+     * Ignored when a custom `adapter` is configured.
      */
     readonly connection?: AzureConnectionConfig;
 
+    /**
+     * Optional. Adapter used to create and load containers.
+     *
+     * @remarks
+     * Defaults to an `AzureServiceAdapter` configured with the `connection` and `logger`
+     * options.
+     */
+    readonly adapter?: ILiveShareServiceAdapter<TServices>;
+
     /**
      * Optional. A logger instance to receive diagnostic messages.
      */
@@ -60,23 +65,114 @@ export interface ILiveShareClientOptions {
      * Optional. Custom timestamp provider to use.
      */
     readonly timestampProvider?: ITimestampProvider;
+
+    /**
+     * Optional. If true, signals sent by live objects are encrypted using session keys
+     * provided by the hosts `getSessionKey()` method.
+     *
+     * @remarks
+     * Defaults to `false`. All clients in the session should use the same setting as
+     * unencrypted signals are ignored while encryption is enabled.
+     */
+    readonly encryptSignals?: boolean;
+
+    /**
+     * Optional. Policy used to retry the requests made to the host while joining a container.
+     *
+     * @remarks
+     * Applies to container lookups, role verification, and the timestamp providers NTP time
+     * requests. Defaults to a `RetryPolicy` that reports each attempt to the `logger`.
+     */
+    readonly retryPolicy?: RetryPolicy;
+
+    /**
+     * Optional. If set, live events sent while the client is disconnected are queued and sent
+     * once the client reconnects.
+     *
+     * @remarks
+     * Sets the `LiveEventScope.defaultOfflineQueue` used by the scopes of all live objects.
+     */
+    readonly offlineQueue?: ILiveEventOfflineQueue;
+}
+
+/**
+ * Events supported by `LiveShareClient`.
+ */
+export interface ILiveShareClientEvents extends IEvent {
+    /**
+     * The client connected or reconnected to its container.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     */
+    (event: "connected", listener: () => void): any;
+
+    /**
+     * The clients container was disposed of and the client won't reconnect.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     */
+    (event: "disconnected", listener: () => void): any;
+
+    /**
+     * The client lost its connection and is attempting to reconnect.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     */
+    (event: "reconnecting", listener: () => void): any;
 }
 
 /**
  * Client used to connect to fluid containers within a Microsoft Teams context.
+ * @template TServices Type of services returned by the clients service adapter.
  */
-export class LiveShareClient {
+export class LiveShareClient<
+    TServices extends ILiveShareContainerServices = AzureContainerServices
+> extends TypedEventEmitter<ILiveShareClientEvents> {
     private _host: ILiveShareHost;
-    private readonly _options: ILiveShareClientOptions;
+    private readonly _options: ILiveShareClientOptions<TServices>;
+    private readonly _adapter: ILiveShareServiceAdapter<TServices>;
     private _timestampProvider?: ITimestampProvider;
     private _roleVerifier?: RoleVerifier;
+    private _signalEncryptor?: HostSignalEncryptor;
+    private _connectionState = LiveConnectionState.disconnected;
+    private _container?: IFluidContainer;
+    private _unwatchContainer?: () => void;
+    private _joinCount = 0;
+    private _joinController = new AbortController();
+    private readonly _retryPolicy: RetryPolicy;
+    private _previousGlobals?: IGlobalDefaults;
+    private _isDisposed = false;
+
+    /**
+     * Creates a new `TeamsFluidClient` instance that uses a custom service adapter.
+     * @param host Host for the current Live Share session.
+     * @param options Configuration options for the client, including the `adapter` to use.
+     */
+    constructor(
+        host: ILiveShareHost,
+        options: ILiveShareClientOptions<TServices> & {
+            readonly adapter: ILiveShareServiceAdapter<TServices>;
+        }
+    );
 
     /**
-     * Creates a new `TeamsFluidClient` instance.
+     * Creates a new `TeamsFluidClient` instance that connects to Azure Fluid Relay.
      * @param host Host for the current Live Share session.
      * @param options Optional. Configuration options for the client.
      */
-    constructor(host: ILiveShareHost, options?: ILiveShareClientOptions) {
+    constructor(
+        host: ILiveShareHost,
+        ...options: AzureContainerServices extends TServices
+            ? [ILiveShareClientOptions<TServices>?]
+            : [never]
+    );
+
+    constructor(
+        host: ILiveShareHost,
+        options?: ILiveShareClientOptions<TServices>
+    ) {
+        super();
+
         // Validate host passed in
         if (!host || typeof host.getFluidTenantInfo != "function") {
             throw new Error(`LiveShareClient: host not passed in`);
@@ -84,14 +180,34 @@ export class LiveShareClient {
 
         // Save props
         this._host = host;
-        this._options = Object.assign({} as ILiveShareClientOptions, options);
+        this._options = Object.assign(
+            {} as ILiveShareClientOptions<TServices>,
+            options
+        );
+        this._retryPolicy =
+            this._options.retryPolicy ??
+            new RetryPolicy({ logger: this._options.logger });
+        this._adapter =
+            this._options.adapter ??
+            createDefaultAdapter<TServices>(host, this._options);
     }
 
     /**
      * If true the client is configured to use a local test server.
      */
     public get isTesting(): boolean {
-        return this._options.connection?.type == "local";
+        return !!this._adapter.isLocal;
+    }
+
+    /**
+     * The clients current connection state.
+     *
+     * @remarks
+     * Changes to the connection state are signaled by the `connected`, `disconnected`, and
+     * `reconnecting` events.
+     */
+    public get connectionState(): LiveConnectionState {
+        return this._connectionState;
     }
 
     /**
@@ -100,6 +216,48 @@ export class LiveShareClient {
      */
     public maxContainerLookupTries = 3;
 
+    /**
+     * Leaves the current container.
+     *
+     * @remarks
+     * Disposes of the joined container, which stops the synchronization of its live objects,
+     * and restores the role verifier, timestamp provider, signal encryptor, and offline queue
+     * that were in use before the container was joined. The client can join another container
+     * once it has left.
+     */
+    public leave(): void {
+        this._joinCount++;
+        this._joinController.abort();
+
+        // Dispose of container
+        const container = this._container;
+        this._container = undefined;
+        if (this._unwatchContainer) {
+            this._unwatchContainer();
+            this._unwatchContainer = undefined;
+        }
+        if (container && !container.disposed) {
+            container.dispose();
+        }
+
+        this.restoreGlobals();
+        this.setConnectionState(LiveConnectionState.disconnected);
+    }
+
+    /**
+     * Leaves the current container and disposes of the client.
+     *
+     * @remarks
+     * The client can't be used to join another container once disposed of.
+     */
+    public dispose(): void {
+        if (!this._isDisposed) {
+            this.leave();
+            this._isDisposed = true;
+            this.removeAllListeners();
+        }
+    }
+
     /**
      * Connects to the fluid container for the current teams context.
      *
@@ -116,66 +274,41 @@ export class LiveShareClient {
         onContainerFirstCreated?: (container: IFluidContainer) => void
     ): Promise<{
         container: IFluidContainer;
-        services: AzureContainerServices;
+        services: TServices;
         created: boolean;
     }> {
+        if (this._isDisposed) {
+            throw new Error(`LiveShareClient: client has been disposed.`);
+        } else if (this._container) {
+            throw new Error(
+                `LiveShareClient: already joined a container. Call leave() before joining another container.`
+            );
+        }
+
+        const joinCount = ++this._joinCount;
+        this._joinController = new AbortController();
+        this._previousGlobals = {
+            roleVerifier: LiveEvent.getRoleVerifier(),
+            timestampProvider: LiveEvent.getTimestampProvider(),
+            signalEncryptor: LiveEvent.getSignalEncryptor(),
+            offlineQueue: LiveEventScope.defaultOfflineQueue,
+        };
         performance.mark(`TeamsSync: join container`);
         try {
+            // Configure signal encryption and offline queue
+            this.initializeSignalEncryptor();
+            if (this._options.offlineQueue) {
+                LiveEventScope.defaultOfflineQueue = this._options.offlineQueue;
+            }
+
             // Configure role verifier and timestamp provider
             const pRoleVerifier = this.initializeRoleVerifier();
             const pTimestampProvider = this.initializeTimestampProvider();
 
-            // Initialize FRS connection config
-            let config: AzureConnectionConfig | undefined =
-                this._options.connection;
-            if (!config) {
-                const frsTenantInfo = await this._host.getFluidTenantInfo();
-
-                // Compute endpoint
-                let endpoint = frsTenantInfo.serviceEndpoint;
-                if (!endpoint) {
-                    if (ordererEndpointMap.has(frsTenantInfo.ordererEndpoint)) {
-                        endpoint = ordererEndpointMap.get(
-                            frsTenantInfo.ordererEndpoint
-                        );
-                    } else {
-                        throw new Error(
-                            `TeamsFluidClient: Unable to find fluid endpoint for: ${frsTenantInfo.ordererEndpoint}`
-                        );
-                    }
-                }
-
-                // Is this a local config?
-                if (frsTenantInfo.tenantId == "local") {
-                    config = {
-                        type: "local",
-                        endpoint: endpoint!,
-                        tokenProvider: new InsecureTokenProvider("", {
-                            id: "123",
-                            name: "Test User",
-                        } as IUser),
-                    };
-                } else {
-                    config = {
-                        type: "remote",
-                        tenantId: frsTenantInfo.tenantId,
-                        endpoint: endpoint!,
-                        tokenProvider: new LiveShareTokenProvider(this._host),
-                    } as AzureRemoteConnectionConfig;
-                }
-            }
-
-            // Create FRS client
-            const client = new AzureClient({
-                connection: config,
-                logger: this._options.logger,
-            });
-
             // Create container on first access
             const pContainer = this.getOrCreateContainer(
-                client,
                 fluidContainerSchema,
-                0,
+                this._joinController.signal,
                 onContainerFirstCreated
             );
 
@@ -186,41 +319,26 @@ export class LiveShareClient {
                 pTimestampProvider,
             ]);
 
-            performance.mark(`TeamsSync: container connecting`);
-
-            // Wait for containers socket to connect
-            let connected = false;
+            // Was leave() called while joining?
             const { container, services } = result[0];
-            container.on("connected", async () => {
-                if (!connected) {
-                    connected = true;
-                    performance.measure(
-                        `TeamsSync: container connected`,
-                        `TeamsSync: container connecting`
-                    );
-                }
+            if (joinCount != this._joinCount) {
+                container.dispose();
+                throw new Error(
+                    `LiveShareClient: left before the container was joined.`
+                );
+            }
 
-                // Register any new clientId's
-                // - registerClientId() will only register a client on first use
-                if (this._roleVerifier) {
-                    const connections =
-                        services.audience.getMyself()?.connections ?? [];
-                    for (let i = 0; i < connections.length; i++) {
-                        try {
-                            const clientId = connections[i]?.id;
-                            if (clientId) {
-                                await this._roleVerifier?.registerClientId(
-                                    clientId
-                                );
-                            }
-                        } catch (err: any) {
-                            console.error(err.toString());
-                        }
-                    }
-                }
-            });
+            this._container = container;
+            this.watchContainer(container, services);
 
             return result[0];
+        } catch (err: any) {
+            // Undo any globals installed unless leave() already did
+            if (joinCount == this._joinCount) {
+                this.restoreGlobals();
+            }
+
+            throw err;
         } finally {
             performance.measure(
                 `TeamsSync: container joined`,
@@ -229,12 +347,60 @@ export class LiveShareClient {
         }
     }
 
+    /**
+     * Restores the globals that were in use before the container was joined.
+     */
+    private restoreGlobals(): void {
+        const previous = this._previousGlobals;
+        this._previousGlobals = undefined;
+        if (this._roleVerifier) {
+            if (LiveEvent.getRoleVerifier() === this._roleVerifier) {
+                LiveEvent.setRoleVerifier(
+                    previous?.roleVerifier ?? new LocalRoleVerifier()
+                );
+            }
+            this._roleVerifier = undefined;
+        }
+
+        if (this._timestampProvider) {
+            if (
+                typeof (this._timestampProvider as TimestampProvider).stop ==
+                "function"
+            ) {
+                (this._timestampProvider as TimestampProvider).stop();
+            }
+            if (LiveEvent.getTimestampProvider() === this._timestampProvider) {
+                LiveEvent.setTimestampProvider(
+                    previous?.timestampProvider ?? new LocalTimestampProvider()
+                );
+            }
+            this._timestampProvider = undefined;
+        }
+
+        if (this._signalEncryptor) {
+            if (LiveEvent.getSignalEncryptor() === this._signalEncryptor) {
+                LiveEvent.setSignalEncryptor(previous?.signalEncryptor);
+            }
+            this._signalEncryptor = undefined;
+        }
+
+        if (
+            this._options.offlineQueue &&
+            LiveEventScope.defaultOfflineQueue === this._options.offlineQueue
+        ) {
+            LiveEventScope.defaultOfflineQueue = previous?.offlineQueue;
+        }
+    }
+
     /**
      * @hidden
      */
     protected async initializeRoleVerifier(): Promise<void> {
         if (!this._roleVerifier && !this.isTesting) {
-            this._roleVerifier = new RoleVerifier(this._host);
+            this._roleVerifier = new RoleVerifier(
+                this._host,
+                this._retryPolicy
+            );
 
             // Register role verifier as current verifier for events
             LiveEvent.setRoleVerifier(this._roleVerifier);
@@ -243,6 +409,17 @@ export class LiveShareClient {
         return Promise.resolve();
     }
 
+    /**
+     * @hidden
+     */
+    protected initializeSignalEncryptor(): void {
+        if (this._options.encryptSignals) {
+            // Throws if the host doesn't support session keys
+            this._signalEncryptor = new HostSignalEncryptor(this._host);
+            LiveEvent.setSignalEncryptor(this._signalEncryptor);
+        }
+    }
+
     /**
      * @hidden
      */
@@ -254,7 +431,10 @@ export class LiveShareClient {
                 this._timestampProvider = this._options.timestampProvider;
             } else {
                 // Create a new host based timestamp provider
-                this._timestampProvider = new HostTimestampProvider(this._host);
+                this._timestampProvider = new HostTimestampProvider(
+                    this._host,
+                    this._retryPolicy
+                );
             }
 
             // Register timestamp provider for events
@@ -273,64 +453,65 @@ export class LiveShareClient {
     }
 
     private async getOrCreateContainer(
-        client: AzureClient,
         fluidContainerSchema: ContainerSchema,
-        tries: number,
+        signal: AbortSignal,
         onInitializeContainer?: (container: IFluidContainer) => void
     ): Promise<{
         container: IFluidContainer;
-        services: AzureContainerServices;
+        services: TServices;
         created: boolean;
     }> {
         // Get container ID mapping
-        const containerInfo = await this._host.getFluidContainerId();
+        // - The host asks us to retry while another client is creating the container.
+        const timeoutError = () =>
+            new Error(
+                `TeamsFluidClient: timed out attempting to create or get container for current context.`
+            );
+        const containerInfo = await this._retryPolicy.execute(
+            "getFluidContainerId",
+            () => this._host.getFluidContainerId(),
+            {
+                isSucceeded: (info) =>
+                    !!info &&
+                    (info.shouldCreate ||
+                        !!info.containerId ||
+                        !(info.retryAfter > 0)),
+                getRetryAfter: (info) => info?.retryAfter,
+                createError: timeoutError,
+                maxAttempts: this.maxContainerLookupTries + 1,
+                signal,
+            }
+        );
 
         // Create container on first access
         if (containerInfo.shouldCreate) {
             return await this.createNewContainer(
-                client,
                 fluidContainerSchema,
-                tries,
                 onInitializeContainer
             );
         } else if (containerInfo.containerId) {
             return {
                 created: false,
-                ...(await client.getContainer(
+                ...(await this._adapter.getContainer(
                     containerInfo.containerId,
                     fluidContainerSchema
                 )),
             };
-        } else if (
-            tries < this.maxContainerLookupTries &&
-            containerInfo.retryAfter > 0
-        ) {
-            await this.wait(containerInfo.retryAfter);
-            return await this.getOrCreateContainer(
-                client,
-                fluidContainerSchema,
-                tries + 1,
-                onInitializeContainer
-            );
         } else {
-            throw new Error(
-                `TeamsFluidClient: timed out attempting to create or get container for current context.`
-            );
+            throw timeoutError();
         }
     }
 
     private async createNewContainer(
-        client: AzureClient,
         fluidContainerSchema: ContainerSchema,
-        tries: number,
         onInitializeContainer?: (container: IFluidContainer) => void
     ): Promise<{
         container: IFluidContainer;
-        services: AzureContainerServices;
+        services: TServices;
         created: boolean;
     }> {
         // Create and initialize container
-        const { container, services } = await client.createContainer(
+        const { container, services } = await this._adapter.createContainer(
             fluidContainerSchema
         );
         if (onInitializeContainer) {
@@ -351,7 +532,7 @@ export class LiveShareClient {
             // Get mapped container ID
             return {
                 created: false,
-                ...(await client.getContainer(
+                ...(await this._adapter.getContainer(
                     containerInfo.containerId!,
                     fluidContainerSchema
                 )),
@@ -361,9 +542,99 @@ export class LiveShareClient {
         }
     }
 
-    private wait(delay: number): Promise<void> {
-        return new Promise((resolve) => {
-            setTimeout(() => resolve(), delay);
-        });
+    private watchContainer(
+        container: IFluidContainer,
+        services: TServices
+    ): void {
+        performance.mark(`TeamsSync: container connecting`);
+
+        // Wait for containers socket to connect
+        let connected = false;
+        const onDisconnected = () => {
+            // The container automatically reconnects unless disposed of
+            if (!container.disposed) {
+                this.setConnectionState(LiveConnectionState.reconnecting);
+            }
+        };
+        const onDisposed = () =>
+            this.setConnectionState(LiveConnectionState.disconnected);
+        const onConnected = async () => {
+            this.setConnectionState(LiveConnectionState.connected);
+            if (!connected) {
+                connected = true;
+                performance.measure(
+                    `TeamsSync: container connected`,
+                    `TeamsSync: container connecting`
+                );
+            }
+
+            // Register any new clientId's
+            // - registerClientId() will only register a client on first use
+            if (this._roleVerifier) {
+                const connections =
+                    services.audience.getMyself()?.connections ?? [];
+                for (let i = 0; i < connections.length; i++) {
+                    try {
+                        const clientId = connections[i]?.id;
+                        if (clientId) {
+                            await this._roleVerifier?.registerClientId(
+                                clientId
+                            );
+                        }
+                    } catch (err: any) {
+                        console.error(err.toString());
+                    }
+                }
+            }
+        };
+        container.on("disconnected", onDisconnected);
+        container.on("disposed", onDisposed);
+        container.on("connected", onConnected);
+        this._unwatchContainer = () => {
+            container.off("disconnected", onDisconnected);
+            container.off("disposed", onDisposed);
+            container.off("connected", onConnected);
+        };
+
+        if (container.connectionState == ConnectionState.Connected) {
+            this.setConnectionState(LiveConnectionState.connected);
+        }
     }
+
+    private setConnectionState(state: LiveConnectionState): void {
+        if (state != this._connectionState) {
+            this._connectionState = state;
+            this.emit(state);
+        }
+    }
+}
+
+/**
+ * @hidden
+ * Globals in use before a container was joined.
+ */
+interface IGlobalDefaults {
+    roleVerifier: IRoleVerifier;
+    timestampProvider: ITimestampProvider;
+    signalEncryptor?: ISignalEncryptor;
+    offlineQueue?: ILiveEventOfflineQueue;
+}
+
+/**
+ * @hidden
+ * Creates the `AzureServiceAdapter` used when no adapter is passed to the client.
+ *
+ * @remarks
+ * The constructor overloads only allow the adapter to be omitted when `AzureContainerServices`
+ * is a `TServices`.
+ */
+function createDefaultAdapter<TServices extends ILiveShareContainerServices>(
+    host: ILiveShareHost,
+    options: ILiveShareClientOptions<TServices>
+): ILiveShareServiceAdapter<TServices> {
+    const adapter: ILiveShareServiceAdapter = new AzureServiceAdapter(host, {
+        connection: options.connection,
+        logger: options.logger,
+    });
+    return adapter as ILiveShareServiceAdapter<TServices>;
 }
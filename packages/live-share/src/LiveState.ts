@@ -5,9 +5,23 @@
 
 import { DataObject, DataObjectFactory } from "@fluidframework/aqueduct";
 import { IEvent } from "@fluidframework/common-definitions";
-import { ILiveEvent, UserMeetingRole } from "./interfaces";
-import { cloneValue, TelemetryEvents } from "./internals";
-import { LiveEventScope } from "./LiveEventScope";
+import { IClientTimestamp, ILiveEvent, UserMeetingRole } from "./interfaces";
+import {
+    cloneValue,
+    getPatchValue,
+    isPatchPathAncestor,
+    isValidPatchPath,
+    parsePatchPath,
+    removePatchValue,
+    setPatchValue,
+    TelemetryEvents,
+} from "./internals";
+import {
+    IInvalidEventDetails,
+    ILiveEventSchema,
+    LiveEventScope,
+    LiveEventValidator,
+} from "./LiveEventScope";
 import { LiveEventTarget } from "./LiveEventTarget";
 import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
 import { LiveEvent } from "./LiveEvent";
@@ -21,6 +35,11 @@ export enum LiveStateEvents {
      * The objects state has changed.
      */
     stateChanged = "stateChanged",
+
+    /**
+     * A malformed state change was received and ignored.
+     */
+    invalidEvent = "invalidEvent",
 }
 
 /**
@@ -44,6 +63,132 @@ export interface ILiveStateEvents<TData = undefined> extends IEvent {
             local: boolean
         ) => void
     ): any;
+
+    /**
+     * A malformed state change was received from another client and ignored.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.details Details of the event that was ignored.
+     */
+    (
+        event: "invalidEvent",
+        listener: (details: IInvalidEventDetails) => void
+    ): any;
+}
+
+/**
+ * A field level change to apply to the data object of a `LiveState` instance.
+ *
+ * @remarks
+ * Paths use the JSON Pointer syntax defined by RFC 6901, for example `/items/0/title`. An empty
+ * path targets the entire data object.
+ */
+export interface IDataPatchOperation {
+    /**
+     * Operation to perform.
+     *
+     * @remarks
+     * Both `add` and `replace` assign `value` to `path`, creating any missing parent objects.
+     * Array elements are assigned in place rather than inserted so that every client ends up
+     * with the same result. Use a path ending in `/-` to append to an array. `remove` deletes
+     * the value at `path`.
+     */
+    op: "add" | "replace" | "remove";
+
+    /**
+     * JSON pointer to the field being changed.
+     */
+    path: string;
+
+    /**
+     * Value to assign for `add` and `replace` operations.
+     */
+    value?: any;
+}
+
+/**
+ * A previous state of a `LiveState` object.
+ * @template TData Optional data object that's synchronized with the state.
+ */
+export interface ILiveStateHistoryEntry<TData = undefined> {
+    /**
+     * The previous state.
+     */
+    state: string;
+
+    /**
+     * Optional data object for the previous state.
+     */
+    data?: TData;
+
+    /**
+     * ID of the client that made the change, if known.
+     */
+    clientId?: string;
+
+    /**
+     * Global timestamp of when the change was made.
+     */
+    timestamp: number;
+}
+
+/**
+ * A transition between two states of a `LiveState` state machine.
+ * @template TData Optional data object that's synchronized with the state.
+ */
+export interface ILiveStateTransition<TData = undefined> {
+    /**
+     * State or list of states the transition starts from. Use `"*"` to allow the transition from
+     * any state.
+     */
+    from: string | string[];
+
+    /**
+     * State the transition ends in.
+     */
+    to: string;
+
+    /**
+     * Optional. List of roles allowed to perform the transition.
+     *
+     * @remarks
+     * These roles are checked in addition to the `allowedRoles` passed to `initialize()`.
+     */
+    allowedRoles?: UserMeetingRole[];
+
+    /**
+     * Optional. Function called to verify that the data for the new state is valid.
+     * @param data Data object for the new state.
+     * @param from State being transitioned from.
+     * @param to State being transitioned to.
+     * @returns True if the transition should be allowed.
+     */
+    guard?: (data: TData | undefined, from: string, to: string) => boolean;
+}
+
+/**
+ * Definition of the states and transitions supported by a `LiveState` object.
+ *
+ * @remarks
+ * Transitions from a state to itself are always allowed unless a transition for it is explicitly
+ * listed, in which case that transitions roles and guard are applied. This lets `changeState()`
+ * and `patchData()` update the data object without changing states. An object still in its
+ * `LiveState.INITIAL_STATE` can move to any of the listed `states`. State changes received from
+ * other clients are verified against the state the sender changed from, while the current state
+ * shared with clients joining late or reconnecting is only checked against the `allowedRoles`
+ * passed to `initialize()`, so that clients that missed a transition still catch up.
+ * @template TData Optional data object that's synchronized with the state.
+ */
+export interface ILiveStateMachine<TData = undefined> {
+    /**
+     * List of valid states.
+     */
+    states: string[];
+
+    /**
+     * List of allowed transitions between states.
+     */
+    transitions: ILiveStateTransition<TData>[];
 }
 
 /**
@@ -60,6 +205,13 @@ export class LiveState<TData = undefined> extends DataObject<{
 }> {
     private _logger = new LiveTelemetryLogger(this.runtime);
     private _allowedRoles: UserMeetingRole[] = [];
+    private _stateMachine?: ILiveStateMachine<TData>;
+    private _remoteUpdates: Promise<void> = Promise.resolve();
+    private _maxHistoryLength = 0;
+    private _history: ILiveStateHistoryEntry<TData>[] = [];
+    private _durable = false;
+    private _durableState?: IDurableState<TData>;
+    private _dataValidator?: LiveEventValidator<TData>;
     private _currentState: IStateChangeEvent<TData> = {
         name: "ChangeState",
         timestamp: 0,
@@ -119,6 +271,66 @@ export class LiveState<TData = undefined> extends DataObject<{
         return this._currentState.state;
     }
 
+    /**
+     * Maximum number of previous states to remember.
+     *
+     * @remarks
+     * Defaults to a value of `0` which disables history tracking. When enabled, the history is
+     * synchronized with other clients so that clients joining late can see the previous states.
+     */
+    public get maxHistoryLength(): number {
+        return this._maxHistoryLength;
+    }
+
+    public set maxHistoryLength(value: number) {
+        this._maxHistoryLength = value > 0 ? Math.floor(value) : 0;
+        this.mergeHistory([]);
+    }
+
+    /**
+     * If true, the latest state is also saved to the container so that it survives all clients
+     * leaving the session.
+     *
+     * @remarks
+     * Defaults to a value of `false` and must be set prior to calling `initialize()`. State
+     * changes are still broadcast to other clients as signals for low latency, but are also
+     * written to the objects root directory. Each write is verified using the client ID the
+     * service sequenced it with, and writes from clients without one of the `allowedRoles` are
+     * ignored. Saved state records the client that last wrote it, and is only loaded when that
+     * client has one of the `allowedRoles`.
+     */
+    public get durable(): boolean {
+        return this._durable;
+    }
+
+    public set durable(value: boolean) {
+        if (this._scope) {
+            throw new Error(
+                `LiveState: durable must be set prior to calling initialize().`
+            );
+        }
+
+        this._durable = value;
+    }
+
+    /**
+     * Optional. Validator used to verify the data object of state changes received from other
+     * clients.
+     *
+     * @remarks
+     * State changes that fail validation are ignored and reported using the `invalidEvent`
+     * event. The shape of the state change itself is always validated. Changes made using
+     * `patchData()` only have the shape of their operations validated.
+     */
+    public get dataValidator(): LiveEventValidator<TData> | undefined {
+        return this._dataValidator;
+    }
+
+    public set dataValidator(value: LiveEventValidator<TData> | undefined) {
+        this._dataValidator = value;
+        this.updateValidator();
+    }
+
     /**
      * Starts the object.
      * @param allowedRoles Optional. List of roles allowed to make state changes.
@@ -145,10 +357,14 @@ export class LiveState<TData = undefined> extends DataObject<{
             (evt, local) => {
                 if (!local) {
                     // Check for state change
-                    this.remoteStateReceived(evt, evt.clientId!);
+                    this.remoteStateReceived(evt, evt.clientId!, true);
                 }
             }
         );
+        this._scope.on("invalidEvent", (details) =>
+            this.emit(LiveStateEvents.invalidEvent, details)
+        );
+        this.updateValidator();
 
         // Create object synchronizer
         this._synchronizer = new LiveObjectSynchronizer(
@@ -157,17 +373,134 @@ export class LiveState<TData = undefined> extends DataObject<{
             this.context.containerRuntime,
             (connecting) => {
                 // Return current state
-                return this._currentState;
+                return this.getSyncState();
             },
             (connecting, state, sender) => {
                 // Check for state change
-                this.remoteStateReceived(state!, sender);
-            }
+                if (!this.isValidState(state, sender)) {
+                    return false;
+                }
+
+                return this.remoteStateReceived(state!, sender);
+            },
+            this._allowedRoles
         );
 
+        // Load saved state and listen for other clients to save changes
+        if (this._durable) {
+            this.root.on("op", (message, local) => {
+                // Verify the writer using the client ID the op was sequenced with
+                const saved = this.root.get(DURABLE_STATE_KEY);
+                if (
+                    !local &&
+                    message.clientId &&
+                    saved &&
+                    saved !== this._durableState
+                ) {
+                    this._durableState = saved;
+                    if (this.isValidState(saved.state, message.clientId)) {
+                        this.remoteStateReceived(saved.state, message.clientId);
+                    }
+                }
+            });
+
+            // Verify saved state using the client recorded as its last writer
+            this._durableState = this.root.get(DURABLE_STATE_KEY);
+            const loaded = this._durableState;
+            if (
+                typeof loaded?.writerId == "string" &&
+                this.isValidState(loaded.state, loaded.writerId)
+            ) {
+                this.remoteStateReceived(loaded.state, loaded.writerId);
+            }
+        }
+
         return Promise.resolve();
     }
 
+    /**
+     * Returns a copy of the previous states being remembered, oldest first.
+     *
+     * @remarks
+     * History is only tracked when `maxHistoryLength` is greater than 0.
+     */
+    public getHistory(): ILiveStateHistoryEntry<TData>[] {
+        return this._history.map((entry) => cloneValue(entry)!);
+    }
+
+    /**
+     * Changes back to a previous state.
+     *
+     * @remarks
+     * Reverting broadcasts a new state change containing the earlier state and data, so it's
+     * subject to the same role checks and state machine rules as `changeState()`. The local
+     * client must have one of the roles passed to `initialize()`.
+     * @param steps Optional. Number of states to go back. Defaults to 1.
+     */
+    public async revert(steps = 1): Promise<void> {
+        if (!this._scope) {
+            throw new Error(`LiveState not started.`);
+        }
+
+        if (!(steps >= 1 && steps <= this._history.length)) {
+            throw new Error(
+                `LiveState: can't revert ${steps} step(s) with a history of ${this._history.length}.`
+            );
+        }
+
+        // Verify local client is allowed to change state
+        if (this._allowedRoles.length > 0) {
+            const clientId = this._scope.clientId;
+            if (
+                !clientId ||
+                !(await LiveEvent.verifyRolesAllowed(
+                    clientId,
+                    this._allowedRoles
+                ))
+            ) {
+                throw new Error(
+                    `LiveState: local client isn't allowed to revert the state.`
+                );
+            }
+        }
+
+        const entry = this._history[this._history.length - steps];
+        await this.changeState(entry.state, cloneValue(entry.data));
+    }
+
+    /**
+     * Registers a state machine that restricts the state changes allowed.
+     *
+     * @remarks
+     * Once registered, `changeState()` rejects illegal transitions and transitions the local
+     * client doesn't have the roles for, and any illegal state changes received from remote
+     * clients are ignored. Can be called before or after the object is initialized.
+     * @param definition The states and transitions to allow.
+     */
+    public defineStateMachine(definition: ILiveStateMachine<TData>): void {
+        if (!definition || !Array.isArray(definition.states)) {
+            throw new Error(`LiveState: state machine is missing its states.`);
+        }
+
+        (definition.transitions || []).forEach((transition) => {
+            const from = Array.isArray(transition.from)
+                ? transition.from
+                : [transition.from];
+            [...from, transition.to].forEach((state) => {
+                if (state != "*" && definition.states.indexOf(state) < 0) {
+                    throw new Error(
+                        `LiveState: state machine transition references unknown state '${state}'.`
+                    );
+                }
+            });
+        });
+
+        this._stateMachine = {
+            states: definition.states.slice(),
+            transitions: (definition.transitions || []).slice(),
+        };
+    }
+
     /**
      * Disposes of the object when its container is disposed of.
      */
@@ -180,17 +513,43 @@ export class LiveState<TData = undefined> extends DataObject<{
 
     /**
      * Changes to a new state with an optional data object.
+     *
+     * @remarks
+     * The returned promise rejects immediately for illegal transitions. Transitions restricted
+     * to specific roles are only applied once the local client has been verified to have one
+     * of them, and the returned promise rejects if it doesn't.
      * @param state New state name.
      * @param data Optional. Data object to associate with the new state.
      */
-    public changeState(state: string, data?: TData): void {
+    public async changeState(state: string, data?: TData): Promise<void> {
         if (!this._scope) {
             throw new Error(`LiveState not started.`);
         }
 
-        // Broadcast state change
+        // Verify transition
+        const from = this._currentState.state;
+        const roles = this.ensureTransitionAllowed(state, data);
         const clone = cloneValue(data);
+        if (roles.length > 0) {
+            await this.ensureLocalRolesAllowed(roles, from, state);
+
+            // Verify again if the state changed while waiting
+            if (this._currentState.state != from) {
+                return this.changeState(state, clone);
+            }
+        }
+
+        this.sendStateChange(from, state, clone);
+    }
+
+    private sendStateChange(
+        from: string,
+        state: string,
+        clone: TData | undefined
+    ): void {
+        // Broadcast state change
         const evt = this._changeStateEvent!.sendEvent({
+            from: from,
             state: state,
             data: clone,
         });
@@ -201,33 +560,429 @@ export class LiveState<TData = undefined> extends DataObject<{
         this.updateState(evt, true);
     }
 
+    /**
+     * Applies a set of field level changes to the current data object.
+     *
+     * @remarks
+     * Only the operations are broadcast to other clients, not the entire data object. Patches
+     * sent by different clients are merged on a per field basis, using `LiveEvent.isNewer()` to
+     * pick a winner when two patches write to the same field. A later call to `changeState()`
+     * replaces the data object along with any patches older than the change. Like
+     * `changeState()`, patches restricted to specific roles by the state machine are only
+     * applied once the local clients roles have been verified. The returned promise rejects
+     * for invalid operations.
+     * @param operations List of operations to apply, in order.
+     */
+    public async patchData(operations: IDataPatchOperation[]): Promise<void> {
+        if (!this._scope) {
+            throw new Error(`LiveState not started.`);
+        }
+
+        if (!Array.isArray(operations)) {
+            throw new Error(
+                `LiveState: patchData() called without operations.`
+            );
+        }
+
+        // Verify operations before sending
+        operations.forEach((operation) => {
+            if (["add", "replace", "remove"].indexOf(operation?.op) < 0) {
+                throw new Error(
+                    `LiveState: unsupported patch operation '${operation?.op}'.`
+                );
+            }
+            parsePatchPath(operation.path);
+        });
+
+        // Verify patched data is allowed for the current state
+        const state = this._currentState.state;
+        const roles = this.ensureTransitionAllowed(
+            state,
+            this.applyPatch(operations, { timestamp: 0 }).data
+        );
+        const clone = cloneValue(operations)!;
+        if (roles.length > 0) {
+            await this.ensureLocalRolesAllowed(roles, state, state);
+
+            // Verify again if the state changed while waiting
+            if (this._currentState.state != state) {
+                return this.patchData(clone);
+            }
+        }
+
+        this.sendPatch(clone);
+    }
+
+    private sendPatch(operations: IDataPatchOperation[]): void {
+        // Broadcast patch
+        const evt = this._changeStateEvent!.sendEvent({
+            state: this._currentState.state,
+            patch: operations,
+        });
+
+        // Apply patch locally immediately
+        this.patchReceived(evt, true);
+    }
+
+    /**
+     * @returns A promise that resolves to true if the change was allowed.
+     */
     private remoteStateReceived(
         evt: IStateChangeEvent<TData>,
-        sender: string
-    ): void {
-        LiveEvent.verifyRolesAllowed(sender, this._allowedRoles)
-            .then((allowed) => {
-                // Ensure that state is allowed, newer, and not the initial state.
+        sender: string,
+        live = false
+    ): Promise<boolean> {
+        // Process received changes one at a time so they're applied in the order received
+        // - Only live state changes are verified against the state machine. The current state
+        //   received when catching up is applied even if this client missed a transition.
+        const received = this._remoteUpdates.then(async () => {
+            try {
+                const allowed = await LiveEvent.verifyRolesAllowed(
+                    sender,
+                    this._allowedRoles
+                );
+                if (allowed && Array.isArray(evt.history)) {
+                    this.mergeHistory(evt.history);
+                }
+
                 if (
                     allowed &&
-                    LiveEvent.isNewer(this._currentState, evt) &&
-                    evt.state !== LiveState.INITIAL_STATE
+                    (!live || (await this.verifyTransition(evt, sender)))
                 ) {
-                    this.updateState(evt, false);
+                    return this.applyRemoteState(evt);
                 }
-            })
-            .catch((err) => {
+            } catch (err: any) {
                 this._logger.sendErrorEvent(
                     TelemetryEvents.LiveState.RoleVerificationError,
                     err
                 );
+            }
+
+            return false;
+        });
+        this._remoteUpdates = received.then(() => undefined);
+        return received;
+    }
+
+    /**
+     * @returns False if the state couldn't be applied.
+     */
+    private applyRemoteState(evt: IStateChangeEvent<TData>): boolean {
+        try {
+            if (Array.isArray(evt.patch)) {
+                this.patchReceived(evt, false);
+            } else {
+                this.mergeState(evt, false);
+            }
+        } catch (err: any) {
+            // Such as a malformed `versions` map
+            this._logger.sendErrorEvent(
+                TelemetryEvents.LiveState.InvalidPatchError,
+                err
+            );
+            return false;
+        }
+
+        return true;
+    }
+
+    private async verifyTransition(
+        evt: IStateChangeEvent<TData>,
+        sender: string
+    ): Promise<boolean> {
+        // Older state changes are ignored when merged so there's nothing to verify
+        const patch = Array.isArray(evt.patch);
+        if (
+            !this._stateMachine ||
+            (!patch && !LiveEvent.isNewer(this._currentState, evt))
+        ) {
+            return true;
+        }
+
+        // Transitions are verified against the state the sender changed from and patches update
+        // the data for the senders current state
+        const newState = evt.state;
+        const oldState = patch
+            ? newState
+            : evt.from ?? this._currentState.state;
+        let data: TData | undefined;
+        try {
+            data = patch
+                ? this.applyPatch(evt.patch!, { timestamp: 0 }).data
+                : evt.data;
+        } catch (err: any) {
+            this._logger.sendErrorEvent(
+                TelemetryEvents.LiveState.InvalidPatchError,
+                err
+            );
+            return false;
+        }
+        const roles = this.getTransitionRoles(oldState, newState, data);
+        if (roles && (await LiveEvent.verifyRolesAllowed(sender, roles))) {
+            return true;
+        }
+
+        this._logger.sendTelemetryEvent(
+            TelemetryEvents.LiveState.TransitionRejected,
+            { oldState, newState }
+        );
+        return false;
+    }
+
+    /**
+     * Throws if a transition isn't allowed by the current state machine.
+     * @returns The roles required to perform the transition.
+     */
+    private ensureTransitionAllowed(
+        state: string,
+        data: TData | undefined
+    ): UserMeetingRole[] {
+        const from = this._currentState.state;
+        const roles = this.getTransitionRoles(from, state, data);
+        if (!roles) {
+            throw new Error(
+                `LiveState: transition from '${from}' to '${state}' isn't allowed.`
+            );
+        }
+
+        return roles;
+    }
+
+    private async ensureLocalRolesAllowed(
+        roles: UserMeetingRole[],
+        from: string,
+        to: string
+    ): Promise<void> {
+        const clientId = this._scope!.clientId;
+        if (
+            !clientId ||
+            !(await LiveEvent.verifyRolesAllowed(clientId, roles))
+        ) {
+            throw new Error(
+                `LiveState: local client isn't allowed to transition from '${from}' to '${to}'.`
+            );
+        }
+    }
+
+    /**
+     * Returns the roles required to perform a transition or `undefined` if the transition isn't
+     * allowed by the current state machine.
+     */
+    private getTransitionRoles(
+        from: string,
+        to: string,
+        data: TData | undefined
+    ): UserMeetingRole[] | undefined {
+        const machine = this._stateMachine;
+        if (!machine) {
+            return [];
+        }
+
+        const transition = machine.transitions.find(
+            (t) =>
+                t.to == to &&
+                (t.from == "*" ||
+                    t.from == from ||
+                    (Array.isArray(t.from) && t.from.indexOf(from) >= 0))
+        );
+        if (transition) {
+            if (
+                transition.guard &&
+                !transition.guard(cloneValue(data), from, to)
+            ) {
+                return undefined;
+            }
+
+            return transition.allowedRoles ?? [];
+        } else if (
+            from == to ||
+            (from == LiveState.INITIAL_STATE && machine.states.indexOf(to) >= 0)
+        ) {
+            return [];
+        }
+
+        return undefined;
+    }
+
+    private patchReceived(evt: IStateChangeEvent<TData>, local: boolean): void {
+        // Apply operations to a copy of the current state
+        let patched: IStateChangeEvent<TData>;
+        try {
+            patched = this.applyPatch(evt.patch!, {
+                clientId: evt.clientId,
+                timestamp: evt.timestamp,
             });
+        } catch (err: any) {
+            this._logger.sendErrorEvent(
+                TelemetryEvents.LiveState.InvalidPatchError,
+                err
+            );
+            return;
+        }
+
+        // Merge patched copy with current state
+        this.mergeState(patched, local);
+    }
+
+    private applyPatch(
+        operations: IDataPatchOperation[],
+        version: IClientTimestamp
+    ): IStateChangeEvent<TData> {
+        // Each operation records a version for the field it wrote to. Operations that change
+        // the length of an array are tracked against the array itself.
+        const patched: IStateChangeEvent<TData> = {
+            ...this._currentState,
+            data: cloneValue(this._currentState.data),
+            versions: { ...this._currentState.versions },
+        };
+        operations.forEach((operation) => {
+            const segments = parsePatchPath(operation.path);
+            const parent = getPatchValue(patched.data, segments.slice(0, -1));
+            let path = operation.path;
+            if (
+                Array.isArray(parent) &&
+                (operation.op == "remove" ||
+                    segments[segments.length - 1] == "-")
+            ) {
+                path = path.substring(0, path.lastIndexOf("/"));
+            }
+
+            if (operation.op == "remove") {
+                patched.data = removePatchValue(patched.data, segments);
+            } else {
+                patched.data = setPatchValue(
+                    patched.data,
+                    segments,
+                    cloneValue(operation.value)
+                );
+            }
+            patched.versions![path] = version;
+        });
+
+        return patched;
+    }
+
+    private mergeState(received: IStateChangeEvent<TData>, local: boolean) {
+        // Determine which state change the merged state is based on
+        const current = this._currentState;
+        const replaceBase =
+            LiveEvent.isNewer(current, received) &&
+            received.state !== LiveState.INITIAL_STATE;
+        const base = replaceBase ? received : current;
+
+        // Collect the newest write for each field patched since the base state change
+        const writes = new Map<string, IFieldWrite<TData>>();
+        const collectWrites = (source: IStateChangeEvent<TData>) => {
+            const versions = source.versions ?? {};
+            for (const path in versions) {
+                // Ignore invalid paths sent by remote clients
+                if (!isValidPatchPath(path)) {
+                    continue;
+                }
+
+                const version = versions[path];
+                const existing = writes.get(path);
+                if (
+                    LiveEvent.isNewer(base, version) &&
+                    (!existing || LiveEvent.isNewer(existing.version, version))
+                ) {
+                    writes.set(path, { path, version, source });
+                }
+            }
+        };
+        collectWrites(current);
+        collectWrites(received);
+
+        // Ignore updates that don't change anything
+        const changed =
+            replaceBase ||
+            Array.from(writes.values()).some(
+                (write) => write.source === received
+            );
+        if (!changed) {
+            return;
+        }
+
+        // Re-apply writes to the base state, oldest to newest
+        let data = cloneValue(base.data);
+        const versions: IDataPatchVersions = {};
+        Array.from(writes.values())
+            .sort((a, b) => compareVersions(a.version, b.version))
+            .forEach((write) => {
+                const segments = parsePatchPath(write.path);
+                const value = getPatchValue(write.source.data, segments);
+                data =
+                    value !== undefined
+                        ? setPatchValue(data, segments, cloneValue(value))
+                        : removePatchValue(data, segments);
+
+                // Drop versions for any fields that were overwritten
+                for (const path in versions) {
+                    if (isPatchPathAncestor(write.path, path)) {
+                        delete versions[path];
+                    }
+                }
+                versions[write.path] = write.version;
+            });
+
+        const evt: IStateChangeEvent<TData> = {
+            name: base.name,
+            clientId: base.clientId,
+            timestamp: base.timestamp,
+            state: base.state,
+            data: data,
+        };
+        if (Object.keys(versions).length > 0) {
+            evt.versions = versions;
+        }
+
+        this.updateState(evt, local);
+    }
+
+    private isValidState(
+        state: IStateChangeEvent<TData> | undefined,
+        sender: string
+    ): boolean {
+        // State received outside of the scope is validated like a "ChangeState" event
+        return this._scope!.validateEvent("ChangeState", state, sender);
+    }
+
+    private updateValidator(): void {
+        if (this._changeStateEvent) {
+            this._changeStateEvent.setValidator({
+                ...CHANGE_STATE_SCHEMA,
+                properties: {
+                    ...CHANGE_STATE_SCHEMA.properties,
+                    data: this._dataValidator ?? {},
+                },
+            });
+        }
+    }
+
+    private getSyncState(): IStateChangeEvent<TData> {
+        // Include any history
+        if (this._maxHistoryLength > 0) {
+            return { ...this._currentState, history: this._history };
+        }
+
+        return this._currentState;
     }
 
     private updateState(evt: IStateChangeEvent<TData>, local: boolean) {
         const oldState = this._currentState.state;
         const newState = evt.state;
+        const previous = this._currentState;
         this._currentState = evt;
+        this.addToHistory(previous);
+
+        // Save local changes to the container
+        if (local && this._durable) {
+            this._durableState = {
+                writerId: this.runtime.clientId,
+                state: cloneValue(this.getSyncState())!,
+            };
+            this.root.set(DURABLE_STATE_KEY, this._durableState);
+        }
         this.emit(
             LiveStateEvents.stateChanged,
             evt.state,
@@ -239,9 +994,132 @@ export class LiveState<TData = undefined> extends DataObject<{
             { oldState, newState }
         );
     }
+
+    private addToHistory(evt: IStateChangeEvent<TData>): void {
+        // Ignore the initial state
+        if (this._maxHistoryLength > 0 && evt.timestamp > 0) {
+            this.mergeHistory([toHistoryEntry(evt)]);
+        }
+    }
+
+    private mergeHistory(entries: ILiveStateHistoryEntry<TData>[]): void {
+        // Combine entries, removing duplicates and the current state
+        const key = (entry: IClientTimestamp) =>
+            `${entry.clientId}:${entry.timestamp}`;
+        const currentKey = key(toHistoryEntry(this._currentState));
+        const merged = new Map<string, ILiveStateHistoryEntry<TData>>();
+        this._history.concat(entries).forEach((entry) => {
+            if (
+                typeof entry?.state == "string" &&
+                typeof entry.timestamp == "number" &&
+                key(entry) != currentKey
+            ) {
+                merged.set(key(entry), entry);
+            }
+        });
+
+        // Sort oldest to newest and trim to max length
+        const history = Array.from(merged.values()).sort(compareVersions);
+        this._history = history.slice(
+            Math.max(0, history.length - this._maxHistoryLength)
+        );
+    }
 }
 
+/**
+ * Key of the root directory entry used to save state when `durable` is enabled.
+ */
+const DURABLE_STATE_KEY = "durableState";
+
+/**
+ * Schema used to validate incoming state changes. The `data` property is validated using the
+ * objects `dataValidator`.
+ */
+const CHANGE_STATE_SCHEMA: ILiveEventSchema = {
+    type: "object",
+    required: ["name", "timestamp", "state"],
+    properties: {
+        name: { type: "string" },
+        timestamp: { type: "number" },
+        from: { type: "string" },
+        state: { type: "string" },
+        patch: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["op", "path"],
+                properties: {
+                    op: { enum: ["add", "replace", "remove"] },
+                    path: { type: "string" },
+                },
+            },
+        },
+        versions: { type: "object" },
+        history: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["state", "timestamp"],
+                properties: {
+                    state: { type: "string" },
+                    timestamp: { type: "number" },
+                },
+            },
+        },
+    },
+};
+
 interface IStateChangeEvent<T> extends ILiveEvent {
+    from?: string;
     state: string;
     data?: T;
+    patch?: IDataPatchOperation[];
+    versions?: IDataPatchVersions;
+    history?: ILiveStateHistoryEntry<T>[];
+}
+
+interface IDurableState<T> {
+    writerId?: string;
+    state: IStateChangeEvent<T>;
+}
+
+interface IDataPatchVersions {
+    [path: string]: IClientTimestamp;
+}
+
+interface IFieldWrite<T> {
+    path: string;
+    version: IClientTimestamp;
+    source: IStateChangeEvent<T>;
+}
+
+/**
+ * Converts a state change into a history entry, using the time of its latest patch if any.
+ */
+function toHistoryEntry<T>(
+    evt: IStateChangeEvent<T>
+): ILiveStateHistoryEntry<T> {
+    let modified: IClientTimestamp = evt;
+    for (const path in evt.versions) {
+        if (compareVersions(modified, evt.versions[path]) < 0) {
+            modified = evt.versions[path];
+        }
+    }
+
+    return {
+        state: evt.state,
+        data: cloneValue(evt.data),
+        clientId: modified.clientId,
+        timestamp: modified.timestamp,
+    };
+}
+
+/**
+ * Sorts versions from oldest to newest using the same tie breaking rules as `LiveEvent.isNewer()`.
+ */
+function compareVersions(a: IClientTimestamp, b: IClientTimestamp): number {
+    return (
+        a.timestamp - b.timestamp ||
+        (b.clientId || "").localeCompare(a.clientId || "")
+    );
 }
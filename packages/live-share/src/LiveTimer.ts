@@ -4,7 +4,11 @@
  */
 
 import { DataObject, DataObjectFactory } from "@fluidframework/aqueduct";
-import { LiveEventScope } from "./LiveEventScope";
+import {
+    IInvalidEventDetails,
+    ILiveEventSchema,
+    LiveEventScope,
+} from "./LiveEventScope";
 import { LiveEventTarget } from "./LiveEventTarget";
 import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
 import { IClientTimestamp, ILiveEvent, UserMeetingRole } from "./interfaces";
@@ -51,6 +55,11 @@ export enum LiveTimerEvents {
      * Timer has progressed
      */
     onTick = "onTick",
+
+    /**
+     * A malformed event was received and ignored
+     */
+    invalidEvent = "invalidEvent",
 }
 
 export interface ILiveTimerEvents extends IEvent {
@@ -72,8 +81,48 @@ export interface ILiveTimerEvents extends IEvent {
     (event: "finished", listener: (config: ITimerConfig) => void): any;
 
     (event: "onTick", listener: (milliRemaining: number) => void): any;
+
+    (
+        event: "invalidEvent",
+        listener: (details: IInvalidEventDetails) => void
+    ): any;
 }
 
+/**
+ * Schema used to validate incoming play and pause events.
+ */
+const TIMER_EVENT_SCHEMA: ILiveEventSchema = {
+    type: "object",
+    required: ["name", "timestamp", "duration", "position"],
+    properties: {
+        name: { type: "string" },
+        timestamp: { type: "number" },
+        duration: { type: "number" },
+        position: { type: "number" },
+    },
+};
+
+/**
+ * Schema used to validate the timer configurations sent by other clients.
+ */
+const TIMER_CONFIG_SCHEMA: ILiveEventSchema = {
+    type: "object",
+    required: [
+        "configChangedAt",
+        "clientId",
+        "duration",
+        "position",
+        "running",
+    ],
+    properties: {
+        configChangedAt: { type: "number" },
+        clientId: { type: "string" },
+        duration: { type: "number" },
+        position: { type: "number" },
+        running: { type: "boolean" },
+    },
+};
+
 interface IPlayEvent extends ILiveEvent {
     duration: number;
     position: number;
@@ -179,6 +228,11 @@ export class LiveTimer extends DataObject<{
             "Pause",
             (event, local) => this._handlePause(event, local)
         );
+        this._playEvent.setValidator(TIMER_EVENT_SCHEMA);
+        this._pauseEvent.setValidator(TIMER_EVENT_SCHEMA);
+        this._scope.on("invalidEvent", (details) =>
+            this.emit(LiveTimerEvents.invalidEvent, details)
+        );
 
         // Create object synchronizer
         this._synchronizer = new LiveObjectSynchronizer<ITimerConfig>(
@@ -191,8 +245,18 @@ export class LiveTimer extends DataObject<{
             },
             (connecting, state, sender) => {
                 // Check for state change
-                this.remoteConfigReceived(state!, sender);
-            }
+                if (
+                    this._scope!.validateEvent(
+                        "TimerConfig",
+                        state,
+                        sender,
+                        TIMER_CONFIG_SCHEMA
+                    )
+                ) {
+                    this.remoteConfigReceived(state!, sender);
+                }
+            },
+            this._allowedRoles
         );
     }
 
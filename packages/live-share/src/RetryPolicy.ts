@@ -0,0 +1,289 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { ITelemetryBaseLogger } from "@fluidframework/common-definitions";
+import { TelemetryEvents, timeoutRequest } from "./internals";
+
+/**
+ * Options used to configure a `RetryPolicy`.
+ */
+export interface IRetryPolicyOptions {
+    /**
+     * Maximum number of attempts, including the first one. Defaults to `6`.
+     */
+    maxAttempts: number;
+
+    /**
+     * Optional. Number of milliseconds to wait before each retry, with the last delay used
+     * for any further retries. Takes precedence over `initialDelay`, `maxDelay` and
+     * `backoffFactor`.
+     *
+     * @remarks
+     * Defaults to `[100, 200, 200, 400, 600]` unless any of the backoff options are specified.
+     */
+    delays?: number[];
+
+    /**
+     * Number of milliseconds to wait before the first retry. Defaults to `100`.
+     */
+    initialDelay: number;
+
+    /**
+     * Maximum number of milliseconds to wait between attempts. Defaults to `2000`.
+     */
+    maxDelay: number;
+
+    /**
+     * Factor the delay is multiplied by after each retry. Defaults to `2`.
+     */
+    backoffFactor: number;
+
+    /**
+     * Fraction of each delay, between 0 and 1, that's randomly added or removed so that
+     * clients don't retry in lockstep. Defaults to `0`.
+     */
+    jitter: number;
+
+    /**
+     * Optional. Number of milliseconds to wait for a single attempt before treating it as
+     * failed.
+     */
+    attemptTimeout?: number;
+
+    /**
+     * Optional. Number of milliseconds after which no further attempts are made.
+     */
+    deadline?: number;
+
+    /**
+     * Optional. Logger that each attempt is reported to as a performance event.
+     */
+    logger?: ITelemetryBaseLogger;
+}
+
+/**
+ * Options used to configure a single call to `RetryPolicy.execute()`.
+ * @template TResult Type of result returned by the request.
+ */
+export interface IRetryRequestOptions<TResult> {
+    /**
+     * Optional. Returns true if the result of an attempt should be returned. Defaults to
+     * accepting any result other than `undefined`.
+     */
+    isSucceeded?: (result: TResult | undefined) => boolean;
+
+    /**
+     * Optional. Returns the minimum number of milliseconds to wait before the next attempt,
+     * typically a `retryAfter` value returned by the service.
+     */
+    getRetryAfter?: (result: TResult | undefined) => number | undefined;
+
+    /**
+     * Optional. Creates the error thrown once all attempts have failed.
+     */
+    createError?: (lastError?: any) => Error;
+
+    /**
+     * Optional. Overrides the policies `maxAttempts` for the request.
+     */
+    maxAttempts?: number;
+
+    /**
+     * Optional. Signal used to abort the request.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Retries requests to the host or service using a fixed schedule of delays or exponential
+ * backoff with jitter.
+ *
+ * @remarks
+ * By default requests are attempted up to 6 times, waiting 100, 200, 200, 400 and 600
+ * milliseconds between attempts.
+ * Used by `LiveShareClient` when looking up the container to join, and by the role verifier
+ * and timestamp provider it configures when calling the host.
+ */
+export class RetryPolicy {
+    private readonly _options: IRetryPolicyOptions;
+
+    /**
+     * Creates a new `RetryPolicy` instance.
+     * @param options Optional. Options used to configure the policy.
+     */
+    constructor(options?: Partial<IRetryPolicyOptions>) {
+        const usesBackoff =
+            options?.initialDelay != undefined ||
+            options?.maxDelay != undefined ||
+            options?.backoffFactor != undefined;
+        this._options = Object.assign(
+            {
+                maxAttempts: 6,
+                delays: usesBackoff ? undefined : [100, 200, 200, 400, 600],
+                initialDelay: 100,
+                maxDelay: 2000,
+                backoffFactor: 2,
+                jitter: 0,
+            } as IRetryPolicyOptions,
+            options
+        );
+    }
+
+    /**
+     * The policies options.
+     */
+    public get options(): IRetryPolicyOptions {
+        return this._options;
+    }
+
+    /**
+     * Returns the number of milliseconds to wait before a retry, excluding jitter.
+     * @param retry The retry to compute the delay for, starting at 1.
+     */
+    public getDelay(retry: number): number {
+        const { delays, initialDelay, backoffFactor, maxDelay } = this._options;
+        if (delays && delays.length > 0) {
+            return delays[Math.min(Math.max(retry, 1), delays.length) - 1];
+        }
+
+        return Math.min(
+            initialDelay * Math.pow(backoffFactor, retry - 1),
+            maxDelay
+        );
+    }
+
+    /**
+     * Executes a request, retrying it until it succeeds or the policies limits are reached.
+     *
+     * @remarks
+     * Attempts that throw an error, time out, or return a result that isn't considered
+     * successful are retried.
+     * @template TResult Type of result returned by the request.
+     * @param name Name of the request used when reporting attempts.
+     * @param fnRequest Function called to make an attempt. Passed the attempt number, starting at 1.
+     * @param options Optional. Options used to configure the request.
+     * @returns The result of the first successful attempt.
+     */
+    public async execute<TResult>(
+        name: string,
+        fnRequest: (attempt: number) => Promise<TResult | undefined>,
+        options?: IRetryRequestOptions<TResult>
+    ): Promise<TResult> {
+        const isSucceeded =
+            options?.isSucceeded ?? ((result) => result !== undefined);
+        const maxAttempts = options?.maxAttempts ?? this._options.maxAttempts;
+        const deadline =
+            this._options.deadline != undefined
+                ? new Date().getTime() + this._options.deadline
+                : undefined;
+        const signal = options?.signal;
+
+        let lastError: any;
+        for (let attempt = 1; ; attempt++) {
+            throwIfAborted(name, signal);
+
+            // Make attempt
+            let result: TResult | undefined;
+            let succeeded = false;
+            const start = performance.now();
+            try {
+                result = await this.attempt(() => fnRequest(attempt));
+                succeeded = isSucceeded(result);
+            } catch (err: any) {
+                lastError = err;
+            }
+            this.reportAttempt(
+                name,
+                attempt,
+                performance.now() - start,
+                succeeded
+            );
+
+            if (succeeded) {
+                return result!;
+            }
+
+            // Compute delay before next attempt
+            let delay = this.addJitter(this.getDelay(attempt));
+            const retryAfter = options?.getRetryAfter?.(result);
+            if (retryAfter != undefined && retryAfter > delay) {
+                delay = retryAfter;
+            }
+
+            if (
+                attempt >= maxAttempts ||
+                (deadline != undefined &&
+                    new Date().getTime() + delay >= deadline)
+            ) {
+                throw options?.createError
+                    ? options.createError(lastError)
+                    : new Error(
+                          `RetryPolicy: '${name}' failed after ${attempt} attempt(s)${
+                              lastError ? ` - ${lastError}` : ""
+                          }`
+                      );
+            }
+
+            await waitForRetry(name, delay, signal);
+        }
+    }
+
+    private attempt<TResult>(
+        fnRequest: () => Promise<TResult | undefined>
+    ): Promise<TResult | undefined> {
+        const timeout = this._options.attemptTimeout;
+        return timeout != undefined && timeout > 0
+            ? timeoutRequest(fnRequest, timeout)
+            : fnRequest();
+    }
+
+    private addJitter(delay: number): number {
+        const jitter = this._options.jitter;
+        return Math.max(
+            Math.round(delay * (1 + jitter * (Math.random() * 2 - 1))),
+            0
+        );
+    }
+
+    private reportAttempt(
+        name: string,
+        attempt: number,
+        duration: number,
+        succeeded: boolean
+    ): void {
+        this._options.logger?.send({
+            category: "performance",
+            eventName: TelemetryEvents.RetryPolicy.Attempt,
+            request: name,
+            attempt,
+            duration,
+            succeeded,
+        });
+    }
+}
+
+function throwIfAborted(name: string, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new Error(`RetryPolicy: '${name}' was aborted.`);
+    }
+}
+
+function waitForRetry(
+    name: string,
+    delay: number,
+    signal?: AbortSignal
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(hTimer);
+            reject(new Error(`RetryPolicy: '${name}' was aborted.`));
+        };
+        const hTimer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener("abort", onAbort);
+    });
+}
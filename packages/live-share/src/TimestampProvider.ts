@@ -3,10 +3,17 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { ILiveShareHost, INtpTimeInfo, ITimestampProvider } from "./interfaces";
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
+import { INtpTimeInfo, ITimestampProvider } from "./interfaces";
+import { RetryPolicy } from "./RetryPolicy";
 
-const IMPROVE_ACCURACY_INTERVAL = 5 * 1000;
-const IMPROVE_ACCURACY_ATTEMPTS = 5;
+const STARTUP_SAMPLES = 6;
+const MAX_SAMPLES = 10;
+const MIN_DRIFT_SAMPLES = 3;
+const MAX_DRIFT = 0.0005;
+const MAX_SLEW_RATE = 0.05;
+const CLOCK_JUMP_THRESHOLD = 1000;
 
 /**
  * @hidden
@@ -18,28 +25,116 @@ interface IServerTimeOffset {
     requestLatency: number;
 }
 
+/**
+ * @hidden
+ * Estimated offset between the local clock and the server clock.
+ */
+interface IClockEstimate {
+    /**
+     * Offset at `localTimeInUtc`.
+     */
+    offset: number;
+    localTimeInUtc: number;
+
+    /**
+     * Number of milliseconds the offset changes by per millisecond of local time.
+     */
+    drift: number;
+    maxError: number;
+}
+
+/**
+ * @hidden
+ * Correction being gradually applied to the offset after a new estimate.
+ */
+interface IClockSlew {
+    delta: number;
+    start: number;
+    duration: number;
+}
+
+/**
+ * Events supported by `TimestampProvider`.
+ */
+export interface ITimestampProviderEvents extends IEvent {
+    /**
+     * The provider synchronized its clock with the server.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.maxTimestampError The providers current `getMaxTimestampError()`.
+     */
+    (event: "clockSynced", listener: (maxTimestampError: number) => void): any;
+
+    /**
+     * The maximum error of the providers timestamps changed after synchronizing.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.maxTimestampError The providers current `getMaxTimestampError()`.
+     */
+    (
+        event: "accuracyChanged",
+        listener: (maxTimestampError: number) => void
+    ): any;
+}
+
 /**
  * Default `ITimestampProvider` implementation.
  *
+ * @remarks
+ * The provider keeps sampling the server time for as long as it's running. Samples are taken
+ * every `syncInterval` until the initial estimate settles and then every `resyncInterval`.
+ * Slow requests are filtered out, the remaining samples are used to estimate both the offset
+ * from the server clock and the rate the local clock drifts at, and corrections are applied
+ * gradually so that timestamps don't jump. Large differences, like those caused by the local
+ * clock being adjusted, are applied immediately.
  */
-export abstract class TimestampProvider implements ITimestampProvider {
-    private _serverTime?: IServerTimeOffset;
+export abstract class TimestampProvider
+    extends TypedEventEmitter<ITimestampProviderEvents>
+    implements ITimestampProvider
+{
+    private _samples: IServerTimeOffset[] = [];
+    private _estimate?: IClockEstimate;
+    private _slew?: IClockSlew;
     private _syncTimer?: any;
-    private _retries = 0;
     private _lastTimeSent = 0;
+    private _lastMaxError?: number;
+    private _abortController = new AbortController();
+
+    /**
+     * Number of milliseconds between samples while the provider is starting up.
+     */
+    public static syncInterval = 5 * 1000;
+
+    /**
+     * Number of milliseconds between samples once the provider has started up.
+     */
+    public static resyncInterval = 60 * 1000;
+
+    /**
+     * Policy used to retry failed requests for the current NTP time.
+     */
+    public retryPolicy = new RetryPolicy();
 
     /**
      * Returns true if the provider has been started.
      */
     public get isRunning(): boolean {
-        return !!this._serverTime;
+        return !!this._estimate;
+    }
+
+    /**
+     * Estimated number of milliseconds the local clock drifts from the server clock per
+     * millisecond of local time.
+     */
+    public get drift(): number {
+        return this._estimate?.drift ?? 0;
     }
 
     /**
      * Returns the current server time as a UTC tick.
      */
     public getTimestamp(): number {
-        if (!this._serverTime) {
+        if (!this._estimate) {
             throw new Error(
                 `TimestampProvider: can't call getTimestamp() before calling start().`
             );
@@ -49,8 +144,9 @@ export abstract class TimestampProvider implements ITimestampProvider {
         // - We never want to generate the same timestamp twice and we always want a greater
         //   timestamp then what we previously sent. This can happen if our accuracy improves
         //   and we end up with a smaller offset then before.
+        const now = new Date().getTime();
         return (this._lastTimeSent = Math.max(
-            new Date().getTime() + this._serverTime.offset,
+            now + this.getOffset(now),
             this._lastTimeSent + 1
         ));
     }
@@ -59,13 +155,18 @@ export abstract class TimestampProvider implements ITimestampProvider {
      * Returns the maximum amount of error, in milliseconds.
      */
     public getMaxTimestampError(): number {
-        if (!this._serverTime) {
+        if (!this._estimate) {
             throw new Error(
                 `DefaultTimestampProvider: can't call getMaxTimestampError() before calling initialize().`
             );
         }
 
-        return Math.floor(this._serverTime.requestLatency / 2);
+        // Include any correction that hasn't been applied yet
+        const now = new Date().getTime();
+        return (
+            this._estimate.maxError +
+            Math.ceil(Math.abs(this.getRemainingSlew(now)))
+        );
     }
 
     /**
@@ -75,7 +176,7 @@ export abstract class TimestampProvider implements ITimestampProvider {
         this.stop();
         performance.mark(`TeamsSync: starting clock`);
         try {
-            await this.improveAccuracy();
+            await this.synchronize();
         } finally {
             performance.measure(
                 `TeamsSync: clock startup`,
@@ -88,12 +189,18 @@ export abstract class TimestampProvider implements ITimestampProvider {
      * Stops the provider if its running.
      */
     public stop(): void {
+        // Cancel any pending requests
+        this._abortController.abort();
+        this._abortController = new AbortController();
+
         if (this._syncTimer) {
             clearTimeout(this._syncTimer);
             this._syncTimer = undefined;
         }
-        this._serverTime = undefined;
-        this._retries = 0;
+        this._samples = [];
+        this._estimate = undefined;
+        this._slew = undefined;
+        this._lastMaxError = undefined;
     }
 
     /**
@@ -102,36 +209,151 @@ export abstract class TimestampProvider implements ITimestampProvider {
     protected abstract getNtpTime(): Promise<INtpTimeInfo>;
 
     /**
-     * Called in a loop to improve the accuracy of the clients timestamp offset.
-     *
-     * The function will periodically call itself until we go 5 times without an improvement
-     * to the calculated timestamp offset.
+     * Called in a loop to keep the clients timestamp offset synchronized with the server.
      */
-    private async improveAccuracy(): Promise<void> {
-        // Check for a more accurate time offset.
-        const offset = await this.getSessionTimeOffset();
+    private async synchronize(): Promise<void> {
+        const signal = this._abortController.signal;
+        const sample = await this.getSessionTimeOffset();
+        if (signal.aborted) {
+            return;
+        }
+
+        // Discard previous samples if the local clock jumped
+        const now = sample.localTimeInUtc;
         if (
-            !this._serverTime ||
-            offset.requestLatency < this._serverTime.requestLatency
+            this._estimate &&
+            Math.abs(sample.offset - this.getTargetOffset(now)) >
+                CLOCK_JUMP_THRESHOLD + sample.requestLatency
         ) {
-            // We got a more accurate time offset.
-            //this.logger.trace(`SharedClock accuracy improved to ${offset.offset}ms by latency of ${offset.requestLatency}ms.`);
-            this._serverTime = offset;
-            this._retries = 0;
-        } else {
-            // We got back an equal or less accurate time offset.
-            this._retries++;
+            this._samples = [];
+        }
+
+        this._samples.push(sample);
+        if (this._samples.length > MAX_SAMPLES) {
+            this._samples.shift();
+        }
+        this.updateEstimate(now);
+
+        // Notify listeners
+        const maxError = this.getMaxTimestampError();
+        this.emit("clockSynced", maxError);
+        if (maxError !== this._lastMaxError) {
+            this._lastMaxError = maxError;
+            this.emit("accuracyChanged", maxError);
         }
 
-        // Start sync timer timer
-        if (this._retries <= IMPROVE_ACCURACY_ATTEMPTS) {
-            this._syncTimer = setTimeout(
-                this.improveAccuracy.bind(this),
-                IMPROVE_ACCURACY_INTERVAL
+        // Schedule next sample
+        this.scheduleSync(
+            this._samples.length < STARTUP_SAMPLES
+                ? TimestampProvider.syncInterval
+                : TimestampProvider.resyncInterval
+        );
+    }
+
+    private scheduleSync(interval: number): void {
+        const signal = this._abortController.signal;
+        this._syncTimer = setTimeout(() => {
+            this.synchronize().catch((err) => {
+                if (!signal.aborted) {
+                    console.error(
+                        `TimestampProvider: error synchronizing clock - ${err.toString()}`
+                    );
+
+                    // Try again later
+                    this.scheduleSync(TimestampProvider.resyncInterval);
+                }
+            });
+        }, interval);
+    }
+
+    /**
+     * Computes a new estimate from the current samples.
+     * @param now Current local time.
+     */
+    private updateEstimate(now: number): void {
+        // Filter out samples with above median latency as their offsets are least accurate
+        const latencies = this._samples
+            .map((sample) => sample.requestLatency)
+            .sort((a, b) => a - b);
+        const maxLatency = latencies[Math.floor(latencies.length / 2)];
+        const samples = this._samples.filter(
+            (sample) => sample.requestLatency <= maxLatency
+        );
+
+        // Estimate drift using a least squares fit of the offsets over time
+        let drift = 0;
+        const period =
+            samples[samples.length - 1].localTimeInUtc -
+            samples[0].localTimeInUtc;
+        if (
+            samples.length >= MIN_DRIFT_SAMPLES &&
+            period >= TimestampProvider.resyncInterval / 2
+        ) {
+            const meanTime = average(samples.map((s) => s.localTimeInUtc));
+            const meanOffset = average(samples.map((s) => s.offset));
+            let numerator = 0;
+            let denominator = 0;
+            samples.forEach((s) => {
+                numerator +=
+                    (s.localTimeInUtc - meanTime) * (s.offset - meanOffset);
+                denominator += Math.pow(s.localTimeInUtc - meanTime, 2);
+            });
+            drift = Math.max(
+                Math.min(numerator / denominator, MAX_DRIFT),
+                -MAX_DRIFT
             );
+        }
+
+        // Project the samples offsets to the current time
+        const offset = average(
+            samples.map((s) => s.offset + drift * (now - s.localTimeInUtc))
+        );
+
+        // Smooth the correction unless it's too large
+        const current = this._estimate ? this.getOffset(now) : offset;
+        const delta = current - offset;
+        if (Math.abs(delta) > CLOCK_JUMP_THRESHOLD) {
+            this._slew = undefined;
         } else {
-            this._syncTimer = undefined;
+            this._slew = {
+                delta,
+                start: now,
+                duration: Math.abs(delta) / MAX_SLEW_RATE,
+            };
+        }
+
+        this._estimate = {
+            offset,
+            localTimeInUtc: now,
+            drift,
+            maxError: Math.floor(maxLatency / 2),
+        };
+    }
+
+    /**
+     * Returns the offset to apply to a local time.
+     */
+    private getOffset(now: number): number {
+        return this.getTargetOffset(now) + this.getRemainingSlew(now);
+    }
+
+    /**
+     * Returns the estimated offset for a local time, ignoring any pending correction.
+     */
+    private getTargetOffset(now: number): number {
+        const estimate = this._estimate!;
+        return (
+            estimate.offset + estimate.drift * (now - estimate.localTimeInUtc)
+        );
+    }
+
+    private getRemainingSlew(now: number): number {
+        const slew = this._slew;
+        if (!slew || now - slew.start >= slew.duration) {
+            return 0;
         }
+
+        return slew.delta * (1 - (now - slew.start) / slew.duration);
     }
 
     /**
@@ -140,9 +362,20 @@ export abstract class TimestampProvider implements ITimestampProvider {
      */
     private async getSessionTimeOffset(): Promise<IServerTimeOffset> {
         // Get time from server and measure request time
-        const startCall = performance.now();
-        const serverTime = await this.getNtpTime();
-        const endCall = performance.now();
+        const { serverTime, startCall, endCall } =
+            await this.retryPolicy.execute(
+                "getNtpTime",
+                async () => {
+                    const startCall = performance.now();
+                    const serverTime = await this.getNtpTime();
+                    return {
+                        serverTime,
+                        startCall,
+                        endCall: performance.now(),
+                    };
+                },
+                { signal: this._abortController.signal }
+            );
         const now = new Date().getTime();
 
         // Compute request latency and session time.
@@ -159,3 +392,7 @@ export abstract class TimestampProvider implements ITimestampProvider {
         };
     }
 }
+
+function average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
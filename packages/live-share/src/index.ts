@@ -3,6 +3,8 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+export * from "./AzureServiceAdapter";
+export * from "./HostSignalEncryptor";
 export * from "./HostTimestampProvider";
 export * from "./interfaces";
 export * from "./LiveEvent";
@@ -19,6 +21,7 @@ export * from "./LiveTelemetryLogger";
 export * from "./LiveTimer";
 export * from "./LocalRoleVerifier";
 export * from "./LocalTimestampProvider";
+export * from "./RetryPolicy";
 export * from "./TestLiveShareHost";
 export * from "./TimeInterval";
 export * from "./TimestampProvider";
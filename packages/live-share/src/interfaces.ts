@@ -3,6 +3,13 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+import {
+    ContainerSchema,
+    IFluidContainer,
+    IMember,
+    IServiceAudience,
+} from "@fluidframework/fluid-static";
+
 /**
  * Base interface for all event objects.
  */
@@ -88,6 +95,66 @@ export interface ITimestampProvider {
     getMaxTimestampError(): number;
 }
 
+/**
+ * @hidden
+ * Encrypts and decrypts the signals sent between clients.
+ */
+export interface ISignalEncryptor {
+    /**
+     * Encrypts a serialized signal.
+     * @param plaintext Serialized signal to encrypt.
+     * @param senderId Client ID of the local client sending the signal.
+     * @returns The encrypted signal.
+     */
+    encrypt(plaintext: string, senderId: string): Promise<IEncryptedSignal>;
+
+    /**
+     * Decrypts a signal encrypted by `encrypt()`.
+     * @param signal Encrypted signal to decrypt.
+     * @param senderId Client ID of the client that sent the signal.
+     * @returns The serialized signal. Rejects if the signal can't be decrypted or wasn't
+     * encrypted by `senderId`.
+     */
+    decrypt(signal: IEncryptedSignal, senderId: string): Promise<string>;
+}
+
+/**
+ * @hidden
+ * Content of an encrypted signal.
+ */
+export interface IEncryptedSignal {
+    /**
+     * ID of the session key used to encrypt the signal.
+     */
+    keyId: string;
+
+    /**
+     * Base64 encoded initialization vector.
+     */
+    iv: string;
+
+    /**
+     * Base64 encoded ciphertext.
+     */
+    data: string;
+}
+
+/**
+ * Symmetric key used to encrypt the signals sent during a session.
+ */
+export interface ISessionKey {
+    /**
+     * Unique ID of the key. Sent with encrypted signals so that receivers can lookup the key
+     * used to encrypt them.
+     */
+    keyId: string;
+
+    /**
+     * Base64 encoded 128 or 256 bit AES key.
+     */
+    key: string;
+}
+
 /**
  * @hidden
  * A provider that verifies roles.
@@ -119,6 +186,26 @@ export interface IRoleVerifier {
     ): Promise<boolean>;
 }
 
+/**
+ * Connection state of a `LiveShareClient`.
+ */
+export enum LiveConnectionState {
+    /**
+     * The client isn't connected to a container.
+     */
+    disconnected = "disconnected",
+
+    /**
+     * The client is connected to its container.
+     */
+    connected = "connected",
+
+    /**
+     * The client lost its connection and is attempting to reconnect.
+     */
+    reconnecting = "reconnecting",
+}
+
 /**
  * State of the current Live Share sessions backing fluid container.
  */
@@ -283,4 +370,65 @@ export interface ILiveShareHost {
      * @returns An array of roles assigned to the queried client ID.
      */
     getClientRoles(clientId: string): Promise<UserMeetingRole[] | undefined>;
+
+    /**
+     * Optional. Returns a symmetric key used to encrypt the signals sent during the session.
+     *
+     * @remarks
+     * Only called when the client is configured to encrypt signals. Hosts can rotate keys by
+     * returning a new key. Clients keep accepting signals encrypted with the key that was
+     * replaced, so keys shouldn't be rotated more often than signals can be delivered.
+     * @returns The current session key.
+     */
+    getSessionKey?(): Promise<ISessionKey>;
+}
+
+/**
+ * Services returned by an `ILiveShareServiceAdapter` alongside a container.
+ */
+export interface ILiveShareContainerServices {
+    /**
+     * Audience of users connected to the container.
+     */
+    audience: IServiceAudience<IMember>;
+}
+
+/**
+ * Adapter used by `LiveShareClient` to create and load containers using a specific Fluid
+ * service.
+ *
+ * @remarks
+ * `AzureServiceAdapter` is used by default. Adapters for other services, like Tinylicious or a
+ * self-hosted routerlicious deployment, can typically wrap the services Fluid client as its
+ * `createContainer()` and `getContainer()` methods share the same shape.
+ * @template TServices Type of services returned with each container.
+ */
+export interface ILiveShareServiceAdapter<
+    TServices extends ILiveShareContainerServices = ILiveShareContainerServices
+> {
+    /**
+     * Optional. If true the service is a local test service and the host isn't used to verify
+     * roles or synchronize timestamps.
+     */
+    readonly isLocal?: boolean;
+
+    /**
+     * Creates a new detached container.
+     * @param containerSchema Fluid objects to create.
+     * @returns The created `container` and its `services`.
+     */
+    createContainer(
+        containerSchema: ContainerSchema
+    ): Promise<{ container: IFluidContainer; services: TServices }>;
+
+    /**
+     * Loads an existing container.
+     * @param containerId ID of the container to load.
+     * @param containerSchema Fluid objects to load.
+     * @returns The loaded `container` and its `services`.
+     */
+    getContainer(
+        containerId: string,
+        containerSchema: ContainerSchema
+    ): Promise<{ container: IFluidContainer; services: TServices }>;
 }
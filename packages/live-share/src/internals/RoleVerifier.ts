@@ -6,8 +6,8 @@
 import { ILiveShareHost, IRoleVerifier, UserMeetingRole } from "../interfaces";
 import { waitForResult } from "./utils";
 import { RequestCache } from "./RequestCache";
+import { RetryPolicy } from "../RetryPolicy";
 
-const EXPONENTIAL_BACKOFF_SCHEDULE = [100, 200, 200, 400, 600];
 // 5 minutes
 const CACHE_LIFETIME = 5 * 60 * 1000;
 
@@ -20,7 +20,10 @@ export class RoleVerifier implements IRoleVerifier {
     private readonly _getRequestCache: RequestCache<UserMeetingRole[]> =
         new RequestCache(CACHE_LIFETIME);
 
-    public constructor(private readonly _host: ILiveShareHost) {}
+    public constructor(
+        private readonly _host: ILiveShareHost,
+        private readonly _retryPolicy = new RetryPolicy()
+    ) {}
 
     public async registerClientId(
         clientId: string
@@ -62,7 +65,8 @@ export class RoleVerifier implements IRoleVerifier {
                         `RoleVerifier: timed out registering local client ID`
                     );
                 },
-                EXPONENTIAL_BACKOFF_SCHEDULE
+                this._retryPolicy,
+                "registerClientId"
             );
         });
     }
@@ -88,14 +92,14 @@ export class RoleVerifier implements IRoleVerifier {
                     try {
                         rolesResult = await this._host.getClientRoles(clientId);
                     } catch (error) {
-                        // Error is thrown when client id is not registered
-                        // Assume Client Id is local and to be newly registered.
-                        // Our service is first writer wins, so we will not overwrite
-                        // if previous states exist.
+                        // Error is thrown when client id is not registered yet
+                        // - Never register a remote client ID using the local users roles.
+                        //   The local client ID is registered by registerClientId() and
+                        //   retrying gives a client that's still registering time to finish.
                         console.warn(
                             "getClientRolesError: " + JSON.stringify(error)
                         );
-                        return await this.registerClientId(clientId);
+                        return undefined;
                     }
                     if (!rolesResult) {
                         return undefined;
@@ -128,7 +132,8 @@ export class RoleVerifier implements IRoleVerifier {
                         `RoleVerifier: timed out getting roles for a remote client ID`
                     );
                 },
-                EXPONENTIAL_BACKOFF_SCHEDULE
+                this._retryPolicy,
+                "getClientRoles"
             );
         });
     }
@@ -0,0 +1,241 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { v4 } from "uuid";
+
+/**
+ * @hidden
+ * Signal used to send one chunk of a signal that was too large to send at once.
+ */
+export const CHUNK_SIGNAL = "@live-share:chunk";
+
+/**
+ * Number of milliseconds to wait for the remaining chunks of a signal before discarding it.
+ */
+const CHUNK_TIMEOUT = 10000;
+
+/**
+ * Maximum number of partially received signals to track per sender.
+ */
+const MAX_PENDING_SIGNALS = 10;
+
+/**
+ * Maximum length of a chunks ID.
+ */
+const MAX_CHUNK_ID_LENGTH = 64;
+
+/**
+ * Space reserved in each chunk for its metadata.
+ */
+const CHUNK_OVERHEAD = 200;
+
+/**
+ * @hidden
+ * One chunk of a signal.
+ */
+export interface ISignalChunk {
+    chunkId: string;
+    index: number;
+    count: number;
+    type: string;
+    data: string;
+}
+
+/**
+ * @hidden
+ * A signal that was reassembled from its chunks.
+ */
+export interface IAssembledSignal {
+    type: string;
+    content: any;
+}
+
+/**
+ * @hidden
+ * Splits signals that are larger than the services signal size limit into chunks and
+ * reassembles the chunks once received.
+ */
+export class SignalChunker {
+    private readonly _pending = new Map<string, Map<string, IPendingSignal>>();
+
+    /**
+     * Returns the size of a signals serialized content.
+     */
+    public static getPayloadSize(content: any): number {
+        return JSON.stringify(content ?? null).length;
+    }
+
+    /**
+     * Returns the number of characters sent in each chunk.
+     */
+    public static getChunkSize(maxSignalSize: number): number {
+        // Escaping can double the size of the serialized data
+        return Math.max(Math.floor((maxSignalSize - CHUNK_OVERHEAD) / 2), 1);
+    }
+
+    /**
+     * Returns the maximum number of chunks a signal within the payload size limit needs.
+     */
+    public static getMaxChunkCount(
+        maxPayloadSize: number,
+        maxSignalSize: number
+    ): number {
+        return Math.ceil(
+            maxPayloadSize / SignalChunker.getChunkSize(maxSignalSize)
+        );
+    }
+
+    /**
+     * Splits a signal into chunks.
+     * @returns List of chunks to send or `undefined` if the signal is small enough to send as is.
+     */
+    public static split(
+        type: string,
+        content: any,
+        maxSignalSize: number
+    ): ISignalChunk[] | undefined {
+        const json = JSON.stringify(content ?? null);
+        if (json.length <= maxSignalSize) {
+            return undefined;
+        }
+
+        const chunkSize = SignalChunker.getChunkSize(maxSignalSize);
+        const chunkId = v4();
+        const count = Math.ceil(json.length / chunkSize);
+        const chunks: ISignalChunk[] = [];
+        for (let i = 0; i < count; i++) {
+            chunks.push({
+                chunkId,
+                index: i,
+                count,
+                type,
+                data: json.substring(i * chunkSize, (i + 1) * chunkSize),
+            });
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Adds a received chunk to its signal.
+     * @param senderId ID of the client that sent the chunk.
+     * @param chunk The received chunk.
+     * @param maxPayloadSize Maximum size allowed for the reassembled signal.
+     * @param maxSignalSize Size above which signals were split into chunks.
+     * @returns The reassembled signal once all of its chunks have been received.
+     */
+    public receive(
+        senderId: string,
+        chunk: ISignalChunk,
+        maxPayloadSize: number,
+        maxSignalSize: number,
+        now = new Date().getTime()
+    ): IAssembledSignal | undefined {
+        this.removeExpired(now);
+
+        // Chunks are sent by remote clients so validate them before allocating anything
+        if (
+            typeof chunk?.chunkId != "string" ||
+            chunk.chunkId.length == 0 ||
+            chunk.chunkId.length > MAX_CHUNK_ID_LENGTH ||
+            typeof chunk.type != "string" ||
+            typeof chunk.data != "string" ||
+            chunk.data.length > SignalChunker.getChunkSize(maxSignalSize) ||
+            !Number.isInteger(chunk.count) ||
+            chunk.count < 1 ||
+            chunk.count >
+                SignalChunker.getMaxChunkCount(maxPayloadSize, maxSignalSize) ||
+            !Number.isInteger(chunk.index) ||
+            chunk.index < 0 ||
+            chunk.index >= chunk.count
+        ) {
+            return undefined;
+        }
+
+        let senderPending = this._pending.get(senderId);
+        if (!senderPending) {
+            senderPending = new Map();
+            this._pending.set(senderId, senderPending);
+        }
+
+        let pending = senderPending.get(chunk.chunkId);
+        if (!pending) {
+            if (senderPending.size >= MAX_PENDING_SIGNALS) {
+                return undefined;
+            }
+
+            pending = {
+                type: chunk.type,
+                count: chunk.count,
+                chunks: new Map(),
+                size: 0,
+                expires: now + CHUNK_TIMEOUT,
+            };
+            senderPending.set(chunk.chunkId, pending);
+        }
+
+        if (
+            chunk.type != pending.type ||
+            chunk.count != pending.count ||
+            pending.chunks.has(chunk.index)
+        ) {
+            return undefined;
+        }
+
+        pending.chunks.set(chunk.index, chunk.data);
+        pending.size += chunk.data.length;
+        if (pending.size > maxPayloadSize) {
+            this.removePending(senderId, chunk.chunkId);
+            return undefined;
+        } else if (pending.chunks.size < pending.count) {
+            return undefined;
+        }
+
+        this.removePending(senderId, chunk.chunkId);
+        try {
+            let json = "";
+            for (let i = 0; i < pending.count; i++) {
+                json += pending.chunks.get(i);
+            }
+            return {
+                type: pending.type,
+                content: JSON.parse(json),
+            };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private removePending(senderId: string, chunkId: string): void {
+        const senderPending = this._pending.get(senderId);
+        if (senderPending) {
+            senderPending.delete(chunkId);
+            if (senderPending.size == 0) {
+                this._pending.delete(senderId);
+            }
+        }
+    }
+
+    private removeExpired(now: number): void {
+        this._pending.forEach((senderPending, senderId) => {
+            senderPending.forEach((pending, chunkId) => {
+                if (pending.expires <= now) {
+                    this.removePending(senderId, chunkId);
+                }
+            });
+        });
+    }
+}
+
+/**
+ * @hidden
+ */
+interface IPendingSignal {
+    type: string;
+    count: number;
+    chunks: Map<number, string>;
+    size: number;
+    expires: number;
+}
@@ -0,0 +1,175 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { IEncryptedSignal, ISignalEncryptor } from "../interfaces";
+import { LiveTelemetryLogger } from "../LiveTelemetryLogger";
+import { TelemetryEvents } from "./consts";
+import { CHUNK_SIGNAL, SignalChunker } from "./SignalChunker";
+
+/**
+ * @hidden
+ * Signal used to send an encrypted signal.
+ */
+export const ENCRYPTED_SIGNAL = "@live-share:encrypted";
+
+/**
+ * @hidden
+ * Sends and receives signals, encrypting and chunking them as needed.
+ *
+ * @remarks
+ * Signals are encrypted before being split into chunks. While an encryptor is assigned,
+ * signals are sent and delivered asynchronously but in the order they were sent. Encrypted
+ * signals are bound to the client ID of their sender so they can't be replayed by others.
+ */
+export class SignalTransport {
+    private readonly _chunker = new SignalChunker();
+    private _outgoing: Promise<void> = Promise.resolve();
+    private _incoming: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new `SignalTransport` instance.
+     * @param submitSignal Function called to submit a signal to the runtime.
+     * @param logger Logger used to report signals that couldn't be encrypted or decrypted.
+     * @param getEncryptor Function called to get the current signal encryptor, if any.
+     * @param getClientId Function called to get the client ID of the local client.
+     */
+    constructor(
+        private readonly submitSignal: (type: string, content: any) => void,
+        private readonly logger: LiveTelemetryLogger,
+        private readonly getEncryptor: () => ISignalEncryptor | undefined,
+        private readonly getClientId: () => string | undefined
+    ) {}
+
+    /**
+     * Sends a signal.
+     * @param type Type of signal to send.
+     * @param content Content of the signal.
+     * @param maxSignalSize Size above which the signal is split into chunks.
+     */
+    public send(type: string, content: any, maxSignalSize: number): void {
+        const encryptor = this.getEncryptor();
+        if (!encryptor) {
+            this.sendChunks(type, content, maxSignalSize);
+            return;
+        }
+
+        // Encrypt signals in parallel but send them in order
+        const senderId = this.getClientId();
+        const encrypted = senderId
+            ? encryptor.encrypt(JSON.stringify({ type, content }), senderId)
+            : Promise.reject(
+                  new Error(
+                      `SignalTransport: can't encrypt signals without a client ID.`
+                  )
+              );
+        this._outgoing = this._outgoing.then(async () => {
+            try {
+                this.sendChunks(
+                    ENCRYPTED_SIGNAL,
+                    await encrypted,
+                    maxSignalSize
+                );
+            } catch (err: any) {
+                this.logger.sendErrorEvent(
+                    TelemetryEvents.SignalTransport.EncryptionError,
+                    err
+                );
+            }
+        });
+    }
+
+    /**
+     * Processes a received signal.
+     * @param message Received signal message.
+     * @param local If true the signal was sent by the local client.
+     * @param maxPayloadSize Maximum size allowed for a signal reassembled from chunks.
+     * @param maxSignalSize Size above which signals are split into chunks.
+     * @param callback Function called with the original signal once it's available.
+     * @param canReceiveChunk Optional. Function called for each remote chunk received.
+     * Chunks are dropped if it returns false.
+     */
+    public receive(
+        message: IInboundSignalMessage,
+        local: boolean,
+        maxPayloadSize: number,
+        maxSignalSize: number,
+        callback: (type: string, content: any) => void,
+        canReceiveChunk?: (senderId: string) => boolean
+    ): void {
+        let type = message.type;
+        let content = message.content;
+        if (type == CHUNK_SIGNAL) {
+            // Wait for all of the chunks to be received
+            const senderId = message.clientId;
+            const signal =
+                senderId !== null &&
+                (local || !canReceiveChunk || canReceiveChunk(senderId))
+                    ? this._chunker.receive(
+                          senderId,
+                          content,
+                          maxPayloadSize,
+                          maxSignalSize
+                      )
+                    : undefined;
+            if (!signal || signal.type == CHUNK_SIGNAL) {
+                return;
+            }
+
+            type = signal.type;
+            content = signal.content;
+        }
+
+        // Unencrypted signals are dropped while encrypting and vice versa
+        const encryptor = this.getEncryptor();
+        if (!encryptor || type != ENCRYPTED_SIGNAL) {
+            if (!encryptor && type != ENCRYPTED_SIGNAL) {
+                callback(type, content);
+            }
+            return;
+        }
+
+        // Decrypt signals in parallel but deliver them in order
+        const senderId = message.clientId;
+        if (senderId === null) {
+            return;
+        }
+
+        const decrypted = encryptor.decrypt(
+            content as IEncryptedSignal,
+            senderId
+        );
+        this._incoming = this._incoming.then(async () => {
+            let signal: any;
+            try {
+                signal = JSON.parse(await decrypted);
+            } catch (err: any) {
+                this.logger.sendErrorEvent(
+                    TelemetryEvents.SignalTransport.DecryptionError,
+                    err,
+                    { senderId }
+                );
+                return;
+            }
+
+            if (
+                typeof signal?.type == "string" &&
+                signal.type != CHUNK_SIGNAL &&
+                signal.type != ENCRYPTED_SIGNAL
+            ) {
+                callback(signal.type, signal.content);
+            }
+        });
+    }
+
+    private sendChunks(type: string, content: any, maxSignalSize: number) {
+        const chunks = SignalChunker.split(type, content, maxSignalSize);
+        if (chunks) {
+            chunks.forEach((chunk) => this.submitSignal(CHUNK_SIGNAL, chunk));
+        } else {
+            this.submitSignal(type, content);
+        }
+    }
+}
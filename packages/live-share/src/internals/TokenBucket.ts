@@ -0,0 +1,61 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+/**
+ * @hidden
+ * Token bucket used to limit the rate of an operation while allowing short bursts.
+ */
+export class TokenBucket {
+    private _tokens: number;
+    private _lastRefill: number;
+
+    /**
+     * Creates a new `TokenBucket` instance.
+     * @param rate Number of tokens added to the bucket per second.
+     * @param burst Maximum number of tokens the bucket can hold.
+     * @param now Optional. Current time in milliseconds.
+     */
+    constructor(
+        private readonly rate: number,
+        private readonly burst: number,
+        now = new Date().getTime()
+    ) {
+        this._tokens = burst;
+        this._lastRefill = now;
+    }
+
+    /**
+     * Returns true if the bucket has refilled to its maximum capacity.
+     * @param now Optional. Current time in milliseconds.
+     */
+    public isFull(now = new Date().getTime()): boolean {
+        this.refill(now);
+        return this._tokens >= this.burst;
+    }
+
+    /**
+     * Removes a token from the bucket if one is available.
+     * @param now Optional. Current time in milliseconds.
+     * @returns True if a token was available.
+     */
+    public tryConsume(now = new Date().getTime()): boolean {
+        this.refill(now);
+        if (this._tokens >= 1) {
+            this._tokens -= 1;
+            return true;
+        }
+
+        return false;
+    }
+
+    private refill(now: number): void {
+        const elapsed = Math.max(now - this._lastRefill, 0);
+        this._tokens = Math.min(
+            this._tokens + (elapsed * this.rate) / 1000,
+            this.burst
+        );
+        this._lastRefill = now;
+    }
+}
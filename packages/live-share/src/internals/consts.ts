@@ -10,13 +10,31 @@
  * Wrap with a call to transmit() if the event should be transmitted to the telemetry service.
  */
 export const TelemetryEvents = {
+    LiveEventScope: {
+        InvalidEvent: "LiveEventScope:InvalidEvent",
+        SenderThrottled: "LiveEventScope:SenderThrottled",
+        PayloadTooLarge: "LiveEventScope:PayloadTooLarge",
+    },
+    LiveObjectSynchronizer: {
+        UpdateDenied: "LiveObjectSynchronizer:UpdateDenied",
+        RoleVerificationError: "LiveObjectSynchronizer:RoleVerificationError",
+    },
     LivePresence: {
         LocalPresenceChanged: "LivePresence:LocalPresenceChange",
         RemotePresenceChanged: "LivePresence:RemotePresenceChange",
     },
+    RetryPolicy: {
+        Attempt: "RetryPolicy:Attempt",
+    },
+    SignalTransport: {
+        EncryptionError: "SignalTransport:EncryptionError",
+        DecryptionError: "SignalTransport:DecryptionError",
+    },
     LiveState: {
         StateChanged: "LiveState:StateChanged",
         RoleVerificationError: "LiveState:RoleVerificationError",
+        InvalidPatchError: "LiveState:InvalidPatchError",
+        TransitionRejected: "LiveState:TransitionRejected",
     },
 };
 
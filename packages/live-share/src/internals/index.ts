@@ -5,6 +5,11 @@
 
 export * from "./consts";
 export * from "./LiveShareTokenProvider";
+export * from "./patch";
 export * from "./RequestCache";
 export * from "./RoleVerifier";
+export * from "./SignalChunker";
+export * from "./SignalTransport";
+export * from "./TokenBucket";
 export * from "./utils";
+export * from "./validation";
@@ -0,0 +1,151 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+/**
+ * @hidden
+ * Segments that could be used to modify an objects prototype.
+ */
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * @hidden
+ * Splits a JSON pointer style path (RFC 6901) into its unescaped segments.
+ *
+ * @remarks
+ * Paths are received from remote clients so any segment that could modify an objects
+ * prototype is rejected.
+ */
+export function parsePatchPath(path: string): string[] {
+    if (path === "") {
+        return [];
+    } else if (typeof path != "string" || !path.startsWith("/")) {
+        throw new Error(`patch: invalid path '${path}'`);
+    }
+
+    const segments = path
+        .substring(1)
+        .split("/")
+        .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+    if (segments.some((segment) => UNSAFE_SEGMENTS.indexOf(segment) >= 0)) {
+        throw new Error(`patch: unsafe path '${path}'`);
+    }
+
+    return segments;
+}
+
+/**
+ * @hidden
+ * Returns true if a path can be parsed using `parsePatchPath()`.
+ */
+export function isValidPatchPath(path: string): boolean {
+    try {
+        parsePatchPath(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * @hidden
+ */
+function hasOwn(obj: any, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/**
+ * @hidden
+ * Returns true if `ancestor` is the same as or a parent of `path`.
+ */
+export function isPatchPathAncestor(ancestor: string, path: string): boolean {
+    return (
+        ancestor === "" || ancestor === path || path.startsWith(`${ancestor}/`)
+    );
+}
+
+/**
+ * @hidden
+ * Returns the value found at a path or `undefined` if the path doesn't exist.
+ */
+export function getPatchValue(data: any, segments: string[]): any {
+    let current = data;
+    for (let i = 0; i < segments.length; i++) {
+        if (
+            current === null ||
+            typeof current != "object" ||
+            !hasOwn(current, segments[i])
+        ) {
+            return undefined;
+        }
+        current = current[segments[i]];
+    }
+
+    return current;
+}
+
+/**
+ * @hidden
+ * Assigns a value to a path, creating any missing parent objects along the way.
+ *
+ * @remarks
+ * Array elements are assigned in place rather than inserted so that applying the same
+ * operations in a different order always produces the same result. The `-` segment can be
+ * used to append to an array.
+ * @returns The updated data object.
+ */
+export function setPatchValue(data: any, segments: string[], value: any): any {
+    if (segments.length == 0) {
+        return value;
+    }
+
+    const root = data !== null && typeof data == "object" ? data : {};
+    let current = root;
+    for (let i = 0; i < segments.length - 1; i++) {
+        const key = segments[i];
+        if (
+            !hasOwn(current, key) ||
+            current[key] === null ||
+            typeof current[key] != "object"
+        ) {
+            current[key] = {};
+        }
+        current = current[key];
+    }
+
+    const key = segments[segments.length - 1];
+    if (Array.isArray(current) && key == "-") {
+        current.push(value);
+    } else {
+        current[key] = value;
+    }
+
+    return root;
+}
+
+/**
+ * @hidden
+ * Removes the value at a path if it exists.
+ * @returns The updated data object.
+ */
+export function removePatchValue(data: any, segments: string[]): any {
+    if (segments.length == 0) {
+        return undefined;
+    }
+
+    const parent = getPatchValue(data, segments.slice(0, -1));
+    if (parent !== null && typeof parent == "object") {
+        const key = segments[segments.length - 1];
+        if (Array.isArray(parent)) {
+            const index = Number(key);
+            if (Number.isInteger(index) && index >= 0) {
+                parent.splice(index, 1);
+            }
+        } else if (hasOwn(parent, key)) {
+            delete parent[key];
+        }
+    }
+
+    return data;
+}
@@ -3,6 +3,8 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+import { RetryPolicy } from "../RetryPolicy";
+
 /**
  * @hidden
  */
@@ -48,36 +50,41 @@ export function waitForResult<TResult>(
     fnRequest: () => Promise<TResult | undefined>,
     fnSucceeded: (result: TResult | undefined) => boolean,
     fnTimeout: () => Error,
-    retrySchedule: number[]
+    retryPolicy: RetryPolicy,
+    name: string
 ): Promise<TResult> {
-    let retries: number = 0;
-    return new Promise<TResult>(async (resolve, reject) => {
-        while (true) {
-            const result = await timeoutRequest(fnRequest, 500 * (retries + 1));
-            if (fnSucceeded(result)) {
-                resolve(result!);
-                break;
-            } else if (retries >= retrySchedule.length) {
-                reject(fnTimeout());
-                break;
-            } else {
-                await waitForDelay(retrySchedule[retries++]);
-            }
+    return retryPolicy.execute(
+        name,
+        (attempt) => timeoutRequest(fnRequest, 500 * attempt),
+        {
+            isSucceeded: fnSucceeded,
+            createError: fnTimeout,
         }
-    });
+    );
 }
 
+/**
+ * @hidden
+ * Resolves with `undefined` if a request takes longer than the timeout.
+ */
 // BUGBUG: Workaround for Teams Client not rejecting errors :(
-function timeoutRequest<TResult>(
+export function timeoutRequest<TResult>(
     fnRequest: () => Promise<TResult | undefined>,
     timeout: number
 ): Promise<TResult | undefined> {
-    return new Promise<TResult | undefined>(async (resolve) => {
+    return new Promise<TResult | undefined>((resolve, reject) => {
         const hTimer = setTimeout(() => {
             resolve(undefined);
         }, timeout);
-        const result = await fnRequest();
-        clearTimeout(hTimer);
-        resolve(result);
+        fnRequest().then(
+            (result) => {
+                clearTimeout(hTimer);
+                resolve(result);
+            },
+            (err) => {
+                clearTimeout(hTimer);
+                reject(err);
+            }
+        );
     });
 }
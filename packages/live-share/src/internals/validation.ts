@@ -0,0 +1,126 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    ILiveEventSchema,
+    LiveEventSchemaType,
+    LiveEventValidator,
+} from "../LiveEventScope";
+
+/**
+ * @hidden
+ * Validates a value using either a validation function or a schema descriptor.
+ * @returns The reason the value is invalid or `undefined` if the value is valid.
+ */
+export function validateValue<T>(
+    value: T,
+    validator: LiveEventValidator<T>,
+    path = ""
+): string | undefined {
+    if (typeof validator == "function") {
+        try {
+            return validator(value)
+                ? undefined
+                : `value at '${path}' failed validation`;
+        } catch (err: any) {
+            return `value at '${path}' failed validation: ${
+                err?.message ?? err
+            }`;
+        }
+    }
+
+    return validateSchema(value, validator, path);
+}
+
+/**
+ * @hidden
+ */
+function validateSchema(
+    value: any,
+    schema: ILiveEventSchema,
+    path: string
+): string | undefined {
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => isSchemaType(value, type))) {
+            return `value at '${path}' should be of type ${types.join(" | ")}`;
+        }
+    }
+
+    if (
+        Array.isArray(schema.enum) &&
+        !schema.enum.some((item) => item === value)
+    ) {
+        return `value at '${path}' should be one of ${JSON.stringify(
+            schema.enum
+        )}`;
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.items) {
+            for (let i = 0; i < value.length; i++) {
+                const reason = validateValue(
+                    value[i],
+                    schema.items,
+                    `${path}/${i}`
+                );
+                if (reason) {
+                    return reason;
+                }
+            }
+        }
+    } else if (value !== null && typeof value == "object") {
+        const required = schema.required ?? [];
+        for (let i = 0; i < required.length; i++) {
+            if (value[required[i]] === undefined) {
+                return `missing required value '${path}/${required[i]}'`;
+            }
+        }
+
+        const properties = schema.properties ?? {};
+        for (const key in value) {
+            if (Object.prototype.hasOwnProperty.call(properties, key)) {
+                if (value[key] !== undefined) {
+                    const reason = validateValue(
+                        value[key],
+                        properties[key],
+                        `${path}/${key}`
+                    );
+                    if (reason) {
+                        return reason;
+                    }
+                }
+            } else if (schema.additionalProperties === false) {
+                return `unexpected value '${path}/${key}'`;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * @hidden
+ */
+function isSchemaType(value: any, type: LiveEventSchemaType): boolean {
+    switch (type) {
+        case "array":
+            return Array.isArray(value);
+        case "integer":
+            return Number.isInteger(value);
+        case "null":
+            return value === null;
+        case "number":
+            return typeof value == "number" && isFinite(value);
+        case "object":
+            return (
+                value !== null &&
+                typeof value == "object" &&
+                !Array.isArray(value)
+            );
+        default:
+            return typeof value == type;
+    }
+}
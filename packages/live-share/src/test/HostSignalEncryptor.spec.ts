@@ -0,0 +1,140 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { HostSignalEncryptor } from "../HostSignalEncryptor";
+import { ILiveShareHost, ISessionKey } from "../interfaces";
+
+function createKey(keyId: string): ISessionKey {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return { keyId, key: Buffer.from(bytes).toString("base64") };
+}
+
+function createHost(keys: ISessionKey[]) {
+    let current = 0;
+    const calls: string[] = [];
+    const host = {
+        getSessionKey: () => {
+            calls.push(keys[current].keyId);
+            return Promise.resolve(keys[current]);
+        },
+    } as unknown as ILiveShareHost;
+    return { host, calls, rotate: () => current++ };
+}
+
+describe("HostSignalEncryptor", () => {
+    it("Should encrypt and decrypt signals", async () => {
+        const { host } = createHost([createKey("key1")]);
+        const sender = new HostSignalEncryptor(host);
+        const receiver = new HostSignalEncryptor(host);
+
+        const encrypted = await sender.encrypt(`{"value":"secret"}`, "client1");
+        assert(encrypted.keyId == "key1", `keyId == ${encrypted.keyId}`);
+        assert(encrypted.data.indexOf("secret") < 0, `signal not encrypted`);
+
+        const decrypted = await receiver.decrypt(encrypted, "client1");
+        assert(decrypted == `{"value":"secret"}`, `decrypted == ${decrypted}`);
+    });
+
+    it("Should decrypt signals sent before a key rotation", async () => {
+        HostSignalEncryptor.unknownKeyRefreshInterval = 0;
+        try {
+            const { host, calls, rotate } = createHost([
+                createKey("key1"),
+                createKey("key2"),
+            ]);
+            const sender = new HostSignalEncryptor(host);
+            const receiver = new HostSignalEncryptor(host);
+
+            const first = await sender.encrypt("first", "client1");
+            const before = await sender.encrypt("before", "client1");
+            assert((await receiver.decrypt(first, "client1")) == "first");
+            rotate();
+            sender.refreshKey();
+            const after = await sender.encrypt("after", "client1");
+            assert(after.keyId == "key2", `keyId == ${after.keyId}`);
+
+            // Receiver picks up the new key and still accepts the previous one
+            assert((await receiver.decrypt(after, "client1")) == "after");
+            assert((await receiver.decrypt(before, "client1")) == "before");
+        } finally {
+            HostSignalEncryptor.unknownKeyRefreshInterval = 1000;
+        }
+    });
+
+    it("Should reject keys older than the previous key", async () => {
+        HostSignalEncryptor.unknownKeyRefreshInterval = 0;
+        try {
+            const { host, rotate } = createHost([
+                createKey("key1"),
+                createKey("key2"),
+                createKey("key3"),
+            ]);
+            const sender = new HostSignalEncryptor(host);
+            const receiver = new HostSignalEncryptor(host);
+
+            const oldest = await sender.encrypt("oldest", "client1");
+            assert((await receiver.decrypt(oldest, "client1")) == "oldest");
+            rotate();
+            sender.refreshKey();
+            const middle = await sender.encrypt("middle", "client1");
+            assert((await receiver.decrypt(middle, "client1")) == "middle");
+            rotate();
+            sender.refreshKey();
+            const latest = await sender.encrypt("latest", "client1");
+            assert((await receiver.decrypt(latest, "client1")) == "latest");
+            await assert.rejects(receiver.decrypt(oldest, "client1"));
+        } finally {
+            HostSignalEncryptor.unknownKeyRefreshInterval = 1000;
+        }
+    });
+
+    it("Should remember unknown keys", async () => {
+        HostSignalEncryptor.unknownKeyRefreshInterval = 0;
+        try {
+            const { host, calls } = createHost([createKey("key1")]);
+            const sender = new HostSignalEncryptor(host);
+            const receiver = new HostSignalEncryptor(host);
+
+            const encrypted = await sender.encrypt("secret", "client1");
+            const forged = { ...encrypted, keyId: "forged" };
+            await assert.rejects(receiver.decrypt(forged, "client1"));
+            const fetched = calls.length;
+            await assert.rejects(receiver.decrypt(forged, "client1"));
+            await assert.rejects(receiver.decrypt(forged, "client1"));
+            assert(calls.length == fetched, `calls == ${calls.length}`);
+        } finally {
+            HostSignalEncryptor.unknownKeyRefreshInterval = 1000;
+        }
+    });
+
+    it("Should fail to decrypt signals from a different sender", async () => {
+        const { host } = createHost([createKey("key1")]);
+        const sender = new HostSignalEncryptor(host);
+        const receiver = new HostSignalEncryptor(host);
+
+        const encrypted = await sender.encrypt("secret", "client1");
+        await assert.rejects(receiver.decrypt(encrypted, "client2"));
+    });
+
+    it("Should fail to decrypt signals with an unknown key", async () => {
+        const sender = new HostSignalEncryptor(
+            createHost([createKey("key1")]).host
+        );
+        const receiver = new HostSignalEncryptor(
+            createHost([createKey("key1")]).host
+        );
+
+        const encrypted = await sender.encrypt("secret", "client1");
+        await assert.rejects(receiver.decrypt(encrypted, "client1"));
+    });
+
+    it("Should throw for hosts without session keys", () => {
+        assert.throws(
+            () => new HostSignalEncryptor({} as unknown as ILiveShareHost)
+        );
+    });
+});
@@ -0,0 +1,111 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { InMemoryLiveShareSession } from "../testing";
+import { RetryPolicy } from "../RetryPolicy";
+import { ContainerState, UserMeetingRole } from "../interfaces";
+
+describe("InMemoryLiveShareHost", () => {
+    it("Should let a single client create the container", async () => {
+        const session = new InMemoryLiveShareSession();
+        const host1 = session.createHost();
+        const host2 = session.createHost();
+
+        const info1 = await host1.getFluidContainerId();
+        assert(info1.shouldCreate, `host1 not asked to create container`);
+        const info2 = await host2.getFluidContainerId();
+        assert(!info2.shouldCreate, `host2 asked to create container`);
+        assert(info2.retryAfter > 0, `retryAfter == ${info2.retryAfter}`);
+
+        const added = await host1.setFluidContainerId("container1");
+        assert(added.containerState == ContainerState.added);
+        const conflict = await host2.setFluidContainerId("container2");
+        assert(conflict.containerState == ContainerState.conflict);
+
+        const info3 = await host2.getFluidContainerId();
+        assert(info3.containerState == ContainerState.alreadyExists);
+        assert(info3.containerId == "container1");
+        assert(session.containerId == "container1");
+    });
+
+    it("Should verify roles per client", async () => {
+        const session = new InMemoryLiveShareSession();
+        const presenter = session.createHost({
+            roles: [UserMeetingRole.presenter],
+        });
+        const attendee = session.createHost({
+            roles: [UserMeetingRole.attendee],
+        });
+        await presenter.registerClientId("presenter");
+        await attendee.registerClientId("attendee");
+        session.setClientRoles("guest", [UserMeetingRole.guest]);
+
+        const verifier = attendee.createRoleVerifier();
+        const allowed = [UserMeetingRole.presenter];
+        assert(await verifier.verifyRolesAllowed("presenter", allowed));
+        assert(!(await verifier.verifyRolesAllowed("attendee", allowed)));
+        assert(!(await verifier.verifyRolesAllowed("guest", allowed)));
+
+        attendee.roles = [UserMeetingRole.organizer];
+        assert.deepEqual(session.getClientRoles("attendee"), [
+            UserMeetingRole.organizer,
+        ]);
+    });
+
+    it("Should simulate latency and failures", async () => {
+        const session = new InMemoryLiveShareSession();
+        const host = session.createHost({
+            methodFaults: { getClientRoles: { latency: 50 } },
+        });
+        await host.registerClientId("client1");
+
+        const start = new Date().getTime();
+        await host.getClientRoles("client1");
+        const elapsed = new Date().getTime() - start;
+        assert(elapsed >= 45, `elapsed == ${elapsed}`);
+
+        host.failNext("registerClientId", 2);
+        await assert.rejects(host.registerClientId("client1"));
+        await assert.rejects(host.registerClientId("client1"));
+        await host.registerClientId("client1");
+
+        // Role verifier should retry failed calls
+        host.failNext("getClientRoles");
+        const verifier = host.createRoleVerifier(
+            new RetryPolicy({ initialDelay: 1 })
+        );
+        const roles = await verifier.getClientRoles("client1");
+        assert(roles.length == 3, `roles == ${roles}`);
+    });
+
+    it("Should not assign local roles to unknown client IDs", async () => {
+        const session = new InMemoryLiveShareSession();
+        const host = session.createHost({
+            roles: [UserMeetingRole.presenter],
+            methodFaults: { getClientRoles: { failureRate: 1 } },
+        });
+        await host.registerClientId("local");
+
+        const verifier = host.createRoleVerifier(
+            new RetryPolicy({ maxAttempts: 2, initialDelay: 1 })
+        );
+        await assert.rejects(verifier.getClientRoles("forged"));
+        assert(
+            session.getClientRoles("forged") === undefined,
+            `forged client ID registered`
+        );
+    });
+
+    it("Should apply clock skew to NTP time", async () => {
+        const session = new InMemoryLiveShareSession();
+        const host = session.createHost({ clockSkew: 60000 });
+
+        const now = new Date().getTime();
+        const time = await host.getNtpTime();
+        const skew = time.ntpTimeInUTC - now;
+        assert(skew >= 60000 && skew < 61000, `skew == ${skew}`);
+    });
+});
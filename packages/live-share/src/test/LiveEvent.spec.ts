@@ -6,7 +6,10 @@
 import { strict as assert } from "assert";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
-import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    describeNoCompat,
+    itExpects,
+} from "@fluidframework/test-version-utils";
 import { LiveEvent } from "../LiveEvent";
 import { Deferred } from "./Deferred";
 import { MockTimestampProvider } from "./MockTimestampProvider";
@@ -281,4 +284,121 @@ describeNoCompat("LiveEvent", (getTestObjectProvider) => {
         const allowed = LiveEvent.isNewer(current, received, 100);
         assert(allowed, `event blocked`);
     });
+
+    it("Should replay recent events to late joiners", async () => {
+        const replay = { maxEvents: 2, maxAgeMs: 60000 };
+        await object1.initialize({ replay });
+        object1.sendEvent({ value: 1 } as any);
+        object1.sendEvent({ value: 2 } as any);
+        object1.sendEvent({ value: 3 } as any);
+        await provider.ensureSynchronized();
+
+        const received: number[] = [];
+        const object2done = new Deferred();
+        object2.on("received", (evt: any, local) => {
+            try {
+                assert(local == false, `Unexpected local event`);
+                received.push(evt.value);
+                if (received.length == 2) {
+                    object2done.resolve();
+                }
+            } catch (err) {
+                object2done.reject(err);
+            }
+        });
+        await object2.initialize({ replay });
+
+        // Wait for events to be replayed
+        await object2done.promise;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        assert(received.join() == "2,3", `received == ${received.join()}`);
+    });
+
+    itExpects(
+        "Should validate replayed events",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveEventScope:InvalidEvent",
+            },
+        ],
+        async () => {
+            const replay = { maxEvents: 5, maxAgeMs: 60000 };
+            await object1.initialize({ replay });
+            object1.sendEvent({ value: 1 } as any);
+            object1.sendEvent({ value: "invalid" } as any);
+            await provider.ensureSynchronized();
+
+            let invalid = 0;
+            const received: any[] = [];
+            const object2done = new Deferred();
+            object2.validator = {
+                type: "object",
+                properties: { value: { type: "number" } },
+            };
+            object2.on("invalidEvent", () => {
+                invalid++;
+                object2done.resolve();
+            });
+            object2.on("received", (evt: any) => received.push(evt.value));
+            await object2.initialize({ replay });
+
+            // Wait for events to be replayed
+            await object2done.promise;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            assert(received.join() == "1", `received == ${received.join()}`);
+            assert(invalid == 1, `invalid == ${invalid}`);
+        }
+    );
+
+    it("Should replay events to late joiners from a single client", async () => {
+        const replay = { maxEvents: 5, maxAgeMs: 60000 };
+        await object1.initialize({ replay });
+        await object2.initialize({ replay });
+        object1.sendEvent({ value: 1 } as any);
+        await provider.ensureSynchronized();
+
+        const container3 = await provider.loadContainer(LiveEvent.factory);
+        const object3 = await requestFluidObject<LiveEvent>(
+            container3,
+            "default"
+        );
+        if (!container3.connect) {
+            await new Promise((resolve) =>
+                container3.once("connected", resolve)
+            );
+        }
+
+        let replies = 0;
+        let overheard = 0;
+        const received: any[] = [];
+        object3.on("received", (evt: any) => received.push(evt.value));
+        [object1, object2].forEach((object) =>
+            (object as any)._scope.onEvent(
+                "ReplayEvents",
+                (evt: any, local: boolean) => {
+                    if (
+                        !local &&
+                        evt.requesterId != (object as any).runtime.clientId
+                    ) {
+                        overheard++;
+                    }
+                }
+            )
+        );
+        await object3.initialize({ replay });
+        (object3 as any)._scope.onEvent("ReplayEvents", (evt: any) => {
+            if (evt.requesterId == (object3 as any).runtime.clientId) {
+                replies++;
+            }
+        });
+
+        // Wait for any other replies to be sent
+        await new Promise((resolve) =>
+            setTimeout(resolve, LiveEvent.maxReplayDelay + 200)
+        );
+        assert(received.join() == "1", `received == ${received.join()}`);
+        assert(replies == 1, `replies == ${replies}`);
+        assert(overheard == 0, `overheard == ${overheard}`);
+    });
 });
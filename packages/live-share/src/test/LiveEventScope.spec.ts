@@ -6,12 +6,13 @@
 import { strict as assert } from "assert";
 import { LiveEvent } from "../LiveEvent";
 import { LiveEventScope } from "../LiveEventScope";
-import { UserMeetingRole } from "../interfaces";
 import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
 import { MockRoleVerifier } from "./MockRoleVerifier";
 import { MockTimestampProvider } from "./MockTimestampProvider";
 import { LocalRoleVerifier } from "../LocalRoleVerifier";
 import { LocalTimestampProvider } from "../LocalTimestampProvider";
+import { HostSignalEncryptor } from "../HostSignalEncryptor";
+import { ILiveShareHost, UserMeetingRole } from "../interfaces";
 
 function createConnectedSignalers() {
     const localRuntime = new MockRuntimeSignaler();
@@ -222,4 +223,621 @@ describe("LiveEventScope", () => {
             done();
         }, 10);
     });
+
+    it("Should resolve sendEventAndWait() once recipients acknowledge", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt, local) => {});
+
+        const result = await localScope.sendEventAndWait(
+            "test",
+            {},
+            {
+                expectedRecipients: [signalers.remoteRuntime.clientId!],
+            }
+        );
+        assert(
+            result.acknowledgedBy.length == 1 &&
+                result.acknowledgedBy[0] == signalers.remoteRuntime.clientId,
+            `acknowledgedBy == ${JSON.stringify(result.acknowledgedBy)}`
+        );
+        assert(
+            result.missingRecipients.length == 0,
+            `missingRecipients == ${JSON.stringify(result.missingRecipients)}`
+        );
+        assert(
+            result.event.name == "test",
+            `event.name == ${result.event.name}`
+        );
+    });
+
+    it("Should retry sendEventAndWait() without duplicate delivery", async () => {
+        let triggered = 0;
+        let sent = 0;
+        const signalers = createConnectedSignalers();
+        signalers.localRuntime.on("signal", (message, local) => {
+            if (local && message.type == "test") {
+                sent++;
+            }
+        });
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt, local) => triggered++);
+
+        const result = await localScope.sendEventAndWait(
+            "test",
+            {},
+            {
+                timeout: 60,
+                maxRetries: 2,
+                expectedRecipients: [
+                    signalers.remoteRuntime.clientId!,
+                    "missing",
+                ],
+            }
+        );
+        assert(sent == 3, `sent == ${sent}`);
+        assert(triggered == 1, `triggered == ${triggered}`);
+        assert(
+            result.missingRecipients.length == 1 &&
+                result.missingRecipients[0] == "missing",
+            `missingRecipients == ${JSON.stringify(result.missingRecipients)}`
+        );
+    });
+
+    it("Should pause sendEventAndWait() retries while disconnected", async () => {
+        let sent = 0;
+        const signalers = createConnectedSignalers();
+        signalers.localRuntime.on("signal", (message, local) => {
+            if (local && message.type == "test") {
+                sent++;
+            }
+        });
+        const localScope = new LiveEventScope(signalers.localRuntime);
+
+        const promise = localScope.sendEventAndWait(
+            "test",
+            {},
+            { timeout: 60, maxRetries: 2, expectedRecipients: ["missing"] }
+        );
+        signalers.localRuntime.disconnect();
+        const result = await promise;
+        assert(sent == 1, `sent == ${sent}`);
+        assert(
+            result.missingRecipients[0] == "missing",
+            `missingRecipients == ${JSON.stringify(result.missingRecipients)}`
+        );
+    });
+
+    it("Should not retry sendEventAndWait() events larger than the max payload size", async () => {
+        LiveEventScope.maxPayloadSize = 1000;
+        try {
+            let errors = 0;
+            let sent = 0;
+            const signalers = createConnectedSignalers();
+            signalers.localRuntime.on("signal", (message, local) => {
+                if (local) {
+                    sent++;
+                }
+            });
+            const localScope = new LiveEventScope(signalers.localRuntime);
+            localScope.on("error", (err) => errors++);
+            const result = await localScope.sendEventAndWait(
+                "test",
+                { value: "x".repeat(2000) },
+                { timeout: 60, maxRetries: 2, expectedRecipients: ["missing"] }
+            );
+            assert(errors == 1, `errors == ${errors}`);
+            assert(sent == 0, `sent == ${sent}`);
+            assert(
+                result.missingRecipients[0] == "missing",
+                `missingRecipients == ${JSON.stringify(
+                    result.missingRecipients
+                )}`
+            );
+        } finally {
+            LiveEventScope.maxPayloadSize = 262144;
+        }
+    });
+
+    it("Should accept acknowledgements from clients without an allowed role", async () => {
+        const signalers = createConnectedSignalers();
+        const localClientId = signalers.localRuntime.clientId!;
+        const remoteClientId = signalers.remoteRuntime.clientId!;
+        const verifier = new MockRoleVerifier([UserMeetingRole.presenter]);
+        verifier.verifyRolesAllowed = (clientId) =>
+            Promise.resolve(clientId == localClientId);
+        LiveEvent.setRoleVerifier(verifier);
+        try {
+            const localScope = new LiveEventScope(signalers.localRuntime, [
+                UserMeetingRole.presenter,
+            ]);
+            const remoteScope = new LiveEventScope(signalers.remoteRuntime, [
+                UserMeetingRole.presenter,
+            ]);
+            let triggered = 0;
+            remoteScope.onEvent("test", (evt, local) => triggered++);
+
+            const start = new Date().getTime();
+            const result = await localScope.sendEventAndWait(
+                "test",
+                {},
+                {
+                    timeout: 5000,
+                    maxRetries: 0,
+                    expectedRecipients: [remoteClientId],
+                }
+            );
+            const elapsed = new Date().getTime() - start;
+            assert(triggered == 1, `triggered == ${triggered}`);
+            assert.deepEqual(result.acknowledgedBy, [remoteClientId]);
+            assert(elapsed < 5000, `elapsed == ${elapsed}`);
+        } finally {
+            LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+        }
+    });
+
+    it("Should only deliver targeted events to the target clients", (done) => {
+        const localRuntime = new MockRuntimeSignaler();
+        const targetRuntime = new MockRuntimeSignaler();
+        const otherRuntime = new MockRuntimeSignaler();
+        MockRuntimeSignaler.connectRuntimes([
+            localRuntime,
+            targetRuntime,
+            otherRuntime,
+        ]);
+
+        let local = 0;
+        let target = 0;
+        let other = 0;
+        const localScope = new LiveEventScope(localRuntime);
+        localScope.onEvent("test", (evt) => local++);
+        new LiveEventScope(targetRuntime).onEvent("test", (evt) => target++);
+        new LiveEventScope(otherRuntime).onEvent("test", (evt) => other++);
+
+        localScope.userResolver = {
+            getClientIdsForUser: (userId) =>
+                userId == "targetUser" ? [targetRuntime.clientId!] : [],
+        };
+        localScope.sendEvent(
+            "test",
+            {},
+            { toClientId: targetRuntime.clientId }
+        );
+        localScope.sendEvent("test", {}, { toUserId: "targetUser" });
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(local == 2, `local == ${local}`);
+            assert(target == 2, `target == ${target}`);
+            assert(other == 0, `other == ${other}`);
+            done();
+        }, 10);
+    });
+
+    it("Should throw when sending to a user without a userResolver", () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        assert.throws(() =>
+            localScope.sendEvent("test", {}, { toUserId: "user" })
+        );
+    });
+
+    it("Should return the result of a request", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onRequest("add", (args: number[], senderId) => {
+            assert(
+                senderId == signalers.localRuntime.clientId,
+                `senderId == ${senderId}`
+            );
+            return args[0] + args[1];
+        });
+
+        const result = await localScope.sendRequest(
+            signalers.remoteRuntime.clientId!,
+            "add",
+            [1, 2]
+        );
+        assert(result == 3, `result == ${result}`);
+    });
+
+    it("Should reject requests from callers without an allowed role", async () => {
+        const verifier = new MockRoleVerifier([UserMeetingRole.attendee]);
+        LiveEvent.setRoleVerifier(verifier);
+        try {
+            const signalers = createConnectedSignalers();
+            const localScope = new LiveEventScope(signalers.localRuntime);
+            const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+            remoteScope.onRequest("test", () => true, [
+                UserMeetingRole.presenter,
+            ]);
+
+            await assert.rejects(
+                localScope.sendRequest(
+                    signalers.remoteRuntime.clientId!,
+                    "test"
+                )
+            );
+            assert(verifier.called, `verifier not called`);
+        } finally {
+            LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+        }
+    });
+
+    it("Should time out requests that aren't handled", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        new LiveEventScope(signalers.remoteRuntime);
+
+        await assert.rejects(
+            localScope.sendRequest(
+                signalers.remoteRuntime.clientId!,
+                "missing",
+                undefined,
+                { timeout: 20 }
+            )
+        );
+    });
+
+    it("Should reject pending requests when disconnected", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onRequest("slow", () => new Promise(() => {}));
+
+        const request = localScope.sendRequest(
+            signalers.remoteRuntime.clientId!,
+            "slow"
+        );
+        signalers.localRuntime.disconnect();
+        await assert.rejects(request);
+    });
+
+    it("Should reject pending requests when the target disconnects", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onRequest("slow", () => new Promise(() => {}));
+
+        const request = localScope.sendRequest(
+            signalers.remoteRuntime.clientId!,
+            "slow"
+        );
+        signalers.remoteRuntime.disconnect();
+        await assert.rejects(request, /left while waiting/);
+    });
+
+    it("Should queue events sent while disconnected", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        const received: any[] = [];
+        remoteScope.onEvent("test", (evt) => received.push(evt));
+        remoteScope.onEvent("expired", (evt) => received.push(evt));
+        localScope.offlineQueue = { maxEvents: 10, ttl: 1000 };
+
+        signalers.localRuntime.disconnect();
+        const first = localScope.sendEvent(
+            "test",
+            { value: 1 },
+            { coalesce: true }
+        );
+        localScope.sendEvent("test", { value: 2 }, { coalesce: true });
+        localScope.sendEvent("expired", {}, { ttl: 10 });
+        assert(
+            localScope.queuedEventCount == 2,
+            `queuedEventCount == ${localScope.queuedEventCount}`
+        );
+        assert(received.length == 0, `sent while disconnected`);
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        signalers.localRuntime.connect();
+        assert(localScope.queuedEventCount == 0, `queue not flushed`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        assert(received.length == 1, `received.length == ${received.length}`);
+        assert(received[0].value == 2, `value == ${received[0].value}`);
+        assert(
+            received[0].clientId == signalers.localRuntime.clientId,
+            `clientId == ${received[0].clientId}`
+        );
+        assert(
+            received[0].timestamp > first.timestamp,
+            `timestamp not refreshed`
+        );
+    });
+
+    it("Should drop remote events that fail schema validation", (done) => {
+        let triggered = 0;
+        let invalid = 0;
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt) => triggered++);
+        remoteScope.setEventValidator("test", {
+            type: "object",
+            required: ["count"],
+            properties: { count: { type: "integer" } },
+        });
+        remoteScope.on("invalidEvent", (details) => {
+            assert(
+                details.eventName == "test",
+                `eventName == ${details.eventName}`
+            );
+            assert(
+                details.clientId == signalers.localRuntime.clientId,
+                `clientId == ${details.clientId}`
+            );
+            invalid++;
+        });
+
+        localScope.sendEvent("test", { count: 1 });
+        localScope.sendEvent("test", { count: "1" });
+        localScope.sendEvent("test", {});
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(triggered == 1, `triggered == ${triggered}`);
+            assert(invalid == 2, `invalid == ${invalid}`);
+            done();
+        }, 10);
+    });
+
+    it("Should drop remote events that fail a validation function", (done) => {
+        let triggered = 0;
+        let invalid = 0;
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        localScope.onEvent("test", (evt) => triggered++);
+        localScope.setEventValidator("test", (evt: any) => evt.valid === true);
+
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt) => triggered++);
+        remoteScope.setEventValidator("test", (evt: any) => evt.valid === true);
+        remoteScope.on("invalidEvent", () => invalid++);
+
+        // Local events aren't validated
+        localScope.sendEvent("test", { valid: false });
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(triggered == 1, `triggered == ${triggered}`);
+            assert(invalid == 1, `invalid == ${invalid}`);
+            done();
+        }, 10);
+    });
+
+    it("Should drop events from senders exceeding the rate limit", (done) => {
+        let triggered = 0;
+        let throttled = 0;
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.rateLimit = { eventsPerSecond: 1, burst: 3 };
+        remoteScope.onEvent("test", (evt) => triggered++);
+        remoteScope.on("senderThrottled", (details) => {
+            assert(
+                details.clientId == signalers.localRuntime.clientId,
+                `clientId == ${details.clientId}`
+            );
+            throttled++;
+        });
+
+        for (let i = 0; i < 10; i++) {
+            localScope.sendEvent("test", {});
+        }
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            const counters = remoteScope.counters;
+            assert(triggered == 3, `triggered == ${triggered}`);
+            assert(throttled == 1, `throttled == ${throttled}`);
+            assert(counters.received == 10, `received == ${counters.received}`);
+            assert(counters.dropped == 7, `dropped == ${counters.dropped}`);
+            assert(
+                counters.droppedByEvent["test"] == 7,
+                `droppedByEvent == ${JSON.stringify(counters.droppedByEvent)}`
+            );
+            done();
+        }, 10);
+    });
+
+    it("Should apply per event rate limits", (done) => {
+        let limited = 0;
+        let other = 0;
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.setEventRateLimit("limited", { eventsPerSecond: 2 });
+        remoteScope.onEvent("limited", (evt) => limited++);
+        remoteScope.onEvent("other", (evt) => other++);
+
+        for (let i = 0; i < 5; i++) {
+            localScope.sendEvent("limited", {});
+            localScope.sendEvent("other", {});
+        }
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(limited == 2, `limited == ${limited}`);
+            assert(other == 5, `other == ${other}`);
+            done();
+        }, 10);
+    });
+
+    it("Should batch and coalesce outgoing events", (done) => {
+        const received: string[] = [];
+        let signals = 0;
+        const signalers = createConnectedSignalers();
+        signalers.localRuntime.on("signal", (message, local) => {
+            if (local) {
+                signals++;
+            }
+        });
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        localScope.batchInterval = 5;
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("move", (evt: any) =>
+            received.push(`move${evt.x}`)
+        );
+        remoteScope.onEvent("click", (evt: any) => received.push("click"));
+
+        localScope.sendEvent("move", { x: 1 }, { coalesce: true });
+        localScope.sendEvent("move", { x: 2 }, { coalesce: true });
+        localScope.sendEvent("click", {});
+        localScope.sendEvent("move", { x: 3 }, { coalesce: true });
+        assert(signals == 0, `signals == ${signals}`);
+
+        // Wait for batch to be sent and verified
+        setTimeout(() => {
+            assert(signals == 1, `signals == ${signals}`);
+            assert(
+                received.join() == "click,move3",
+                `received == ${received.join()}`
+            );
+            done();
+        }, 20);
+    });
+
+    it("Should send immediate events without waiting for the batch", (done) => {
+        const received: string[] = [];
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        localScope.batchInterval = 1000;
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt: any) => received.push(evt.value));
+
+        localScope.sendEvent("test", { value: "first" });
+        localScope.sendEvent("test", { value: "second" }, { immediate: true });
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(
+                received.join() == "first,second",
+                `received == ${received.join()}`
+            );
+            done();
+        }, 10);
+    });
+
+    it("Should reassemble events larger than the signal size", (done) => {
+        LiveEventScope.maxSignalSize = 500;
+        let signals = 0;
+        const largeValue = "x".repeat(2000);
+        const signalers = createConnectedSignalers();
+        signalers.localRuntime.on("signal", (message, local) => {
+            if (local) {
+                signals++;
+            }
+        });
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt: any, local) => {
+            LiveEventScope.maxSignalSize = 8000;
+            try {
+                assert(evt.value == largeValue, `invalid value received`);
+                assert(signals > 1, `signals == ${signals}`);
+                done();
+            } catch (err) {
+                done(err);
+            }
+        });
+
+        localScope.sendEvent("test", { value: largeValue });
+    });
+
+    it("Should rate limit chunks as they arrive", (done) => {
+        LiveEventScope.maxSignalSize = 500;
+        LiveEventScope.maxPayloadSize = 2000;
+        let triggered = 0;
+        let throttled = 0;
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.rateLimit = { eventsPerSecond: 1, burst: 1 };
+        remoteScope.onEvent("test", (evt) => triggered++);
+        remoteScope.on("senderThrottled", (details) => {
+            if (details.eventName == "@live-share:chunk") {
+                throttled++;
+            }
+        });
+
+        try {
+            // Incomplete signals count against the limit
+            for (let i = 0; i < 20; i++) {
+                signalers.localRuntime.submitSignal("@live-share:chunk", {
+                    chunkId: `${i}`,
+                    index: 0,
+                    count: 2,
+                    type: "test",
+                    data: "x",
+                });
+            }
+            localScope.sendEvent("test", { value: "x".repeat(1000) });
+        } finally {
+            LiveEventScope.maxSignalSize = 8000;
+            LiveEventScope.maxPayloadSize = 262144;
+        }
+
+        // Verify is an async operation so wait some
+        setTimeout(() => {
+            assert(triggered == 0, `triggered == ${triggered}`);
+            assert(throttled == 1, `throttled == ${throttled}`);
+            assert(
+                remoteScope.counters.droppedByEvent["@live-share:chunk"] > 0,
+                `no chunks dropped`
+            );
+            done();
+        }, 10);
+    });
+
+    it("Should raise an error for events larger than the max payload size", () => {
+        LiveEventScope.maxPayloadSize = 1000;
+        try {
+            let errors = 0;
+            const signalers = createConnectedSignalers();
+            const localScope = new LiveEventScope(signalers.localRuntime);
+            localScope.on("error", (err) => errors++);
+            localScope.sendEvent("test", { value: "x".repeat(2000) });
+            assert(errors == 1, `errors == ${errors}`);
+        } finally {
+            LiveEventScope.maxPayloadSize = 262144;
+        }
+    });
+
+    it("Should encrypt signals when an encryptor is assigned", (done) => {
+        const key = Buffer.from(
+            crypto.getRandomValues(new Uint8Array(32))
+        ).toString("base64");
+        const host = {
+            getSessionKey: () => Promise.resolve({ keyId: "key1", key }),
+        } as unknown as ILiveShareHost;
+        LiveEvent.setSignalEncryptor(new HostSignalEncryptor(host));
+
+        let plaintextSent = false;
+        const signalers = createConnectedSignalers();
+        signalers.localRuntime.on("signal", (message, local) => {
+            if (JSON.stringify(message.content).indexOf("secret") >= 0) {
+                plaintextSent = true;
+            }
+        });
+        const localScope = new LiveEventScope(signalers.localRuntime);
+        const remoteScope = new LiveEventScope(signalers.remoteRuntime);
+        remoteScope.onEvent("test", (evt: any, local) => {
+            LiveEvent.setSignalEncryptor(undefined);
+            try {
+                assert(evt.value == "secret", `value == ${evt.value}`);
+                assert(!plaintextSent, `plaintext signal sent`);
+                done();
+            } catch (err) {
+                done(err);
+            }
+        });
+
+        // Unencrypted signals should be dropped
+        signalers.localRuntime.submitSignal("test", { value: "plaintext" });
+        localScope.sendEvent("test", { value: "secret" });
+    });
 });
@@ -4,10 +4,16 @@
  */
 
 import { strict as assert } from "assert";
-import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
+import { ILivePeer, LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
+import { LiveEventScope } from "../LiveEventScope";
+import { CHUNK_SIGNAL, waitForDelay } from "../internals";
 import { MockContainerRuntimeSignaler } from "./MockContainerRuntimeSignaler";
 import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
 import { Deferred } from "./Deferred";
+import { MockRoleVerifier } from "./MockRoleVerifier";
+import { LiveEvent } from "../LiveEvent";
+import { LocalRoleVerifier } from "../LocalRoleVerifier";
+import { UserMeetingRole } from "../interfaces";
 
 function createConnectedSignalers() {
     const localContainer = new MockContainerRuntimeSignaler();
@@ -166,6 +172,37 @@ describe("LiveObjectSynchronizer", () => {
             }
         );
 
+        // Periodic updates are only sent for changed states
+        let count = 0;
+        const remoteRuntime = new MockRuntimeSignaler();
+        const remoteObject = new LiveObjectSynchronizer(
+            "test",
+            remoteRuntime,
+            signalers.remoteContainer,
+            (connecting) => {
+                return { client: "remote", count: count++ };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        await done.promise;
+        localObject.dispose();
+        remoteObject.dispose();
+    });
+
+    it("Should send heartbeats for unchanged states", async () => {
+        const signalers = createConnectedSignalers();
+        const localRuntime = new MockRuntimeSignaler();
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            localRuntime,
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            (connecting, state, sender) => {}
+        );
+
         const remoteRuntime = new MockRuntimeSignaler();
         const remoteObject = new LiveObjectSynchronizer(
             "test",
@@ -177,8 +214,376 @@ describe("LiveObjectSynchronizer", () => {
             (connecting, state, sender) => {}
         );
 
+        // Wait for two full update cycles
+        let heartbeats = signalers.remoteContainer.getSentSignals("heartbeat");
+        while (heartbeats.length < 4) {
+            await waitForDelay(10);
+            heartbeats = signalers.remoteContainer.getSentSignals("heartbeat");
+        }
+        const updates = signalers.remoteContainer.getSentSignals("update");
+        const resyncs = signalers.localContainer.getSentSignals("resync");
+
+        // Full updates are still sent periodically for older clients
+        assert(updates.length > 1, `updates == ${updates.length}`);
+        assert(
+            heartbeats.length > updates.length,
+            `heartbeats == ${heartbeats.length}`
+        );
+        assert(resyncs.length == 0, `resyncs == ${resyncs.length}`);
+        localObject.dispose();
+        remoteObject.dispose();
+    });
+
+    it("Should resync states when a version gap is detected", async () => {
+        const done = new Deferred();
+        const signalers = createConnectedSignalers();
+        const localRuntime = new MockRuntimeSignaler();
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            localRuntime,
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            (connecting, state, sender) => {
+                if (!connecting) {
+                    done.resolve();
+                }
+            }
+        );
+
+        const remoteRuntime = new MockRuntimeSignaler();
+        const remoteObject = new LiveObjectSynchronizer(
+            "test",
+            remoteRuntime,
+            signalers.remoteContainer,
+            (connecting) => {
+                return { client: "remote" };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        // Simulate a heartbeat for a version that was never received
+        signalers.remoteContainer.submitSignal("heartbeat", {
+            test: "unknown",
+        });
+
         await done.promise;
+        const resyncs = signalers.localContainer.getSentSignals("resync");
+        assert(resyncs.length == 1, `resyncs == ${resyncs.length}`);
         localObject.dispose();
         remoteObject.dispose();
     });
+
+    it("Should resync states that were rejected", async () => {
+        const done = new Deferred();
+        const signalers = createConnectedSignalers();
+        let received = 0;
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            new MockRuntimeSignaler(),
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            async (connecting, state, sender) => {
+                // Reject the connecting state and first update
+                if (++received == 3) {
+                    done.resolve();
+                }
+                return received > 2;
+            }
+        );
+        const remoteObject = new LiveObjectSynchronizer(
+            "test",
+            new MockRuntimeSignaler(),
+            signalers.remoteContainer,
+            (connecting) => {
+                return { client: "remote" };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        await done.promise;
+        const resyncs = signalers.localContainer.getSentSignals("resync");
+        assert(resyncs.length > 0, `resyncs == ${resyncs.length}`);
+        localObject.dispose();
+        remoteObject.dispose();
+    });
+
+    it("Should limit resync replies to each requester", async () => {
+        const signalers = createConnectedSignalers();
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            new MockRuntimeSignaler(),
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        // Flood local client with resync requests
+        const sent = signalers.localContainer.getSentSignals("update").length;
+        for (let i = 0; i < 10; i++) {
+            signalers.remoteContainer.submitSignal("resync", {
+                clientId: signalers.localContainer.clientId,
+                ids: ["test"],
+            });
+        }
+
+        const replies =
+            signalers.localContainer.getSentSignals("update").length - sent;
+        assert(replies == 1, `replies == ${replies}`);
+        localObject.dispose();
+    });
+
+    it("Should send states larger than the signal size in chunks", async () => {
+        LiveEventScope.maxSignalSize = 500;
+        try {
+            const done = new Deferred();
+            const largeValue = "x".repeat(2000);
+            const localRuntime = new MockRuntimeSignaler();
+            const signalers = createConnectedSignalers();
+            const localObject = new LiveObjectSynchronizer(
+                "test",
+                localRuntime,
+                signalers.localContainer,
+                (connecting) => {
+                    return { client: "local" };
+                },
+                (connecting, state: any, sender) => {
+                    try {
+                        assert(
+                            state.value == largeValue,
+                            `local: invalid state received`
+                        );
+                        done.resolve();
+                    } catch (err) {
+                        done.reject(err);
+                    }
+                }
+            );
+
+            const remoteRuntime = new MockRuntimeSignaler();
+            const remoteObject = new LiveObjectSynchronizer(
+                "test",
+                remoteRuntime,
+                signalers.remoteContainer,
+                (connecting) => {
+                    return { client: "remote", value: largeValue };
+                },
+                (connecting, state, sender) => {}
+            );
+
+            await done.promise;
+            assert(
+                signalers.remoteContainer.getSentSignals(CHUNK_SIGNAL).length >
+                    1,
+                `chunks not sent`
+            );
+            localObject.dispose();
+            remoteObject.dispose();
+        } finally {
+            LiveEventScope.maxSignalSize = 8000;
+        }
+    });
+
+    it("Should use a fixed update interval by default", () => {
+        assert(
+            LiveObjectSynchronizer.adaptiveUpdateInterval === undefined,
+            `adaptive update interval enabled`
+        );
+        const interval = LiveObjectSynchronizer.getUpdateInterval(300);
+        assert(interval == 20, `interval == ${interval}`);
+    });
+
+    it("Should scale the update interval with connected clients", async () => {
+        const policy = LiveObjectSynchronizer.adaptiveUpdateInterval;
+        LiveObjectSynchronizer.adaptiveUpdateInterval = {
+            clientsPerInterval: 1,
+            maxUpdateInterval: 100,
+            jitter: 0,
+        };
+        try {
+            assert(LiveObjectSynchronizer.getUpdateInterval(1) == 20);
+            assert(LiveObjectSynchronizer.getUpdateInterval(3) == 60);
+            assert(LiveObjectSynchronizer.getUpdateInterval(300) == 100);
+
+            const signalers = createConnectedSignalers();
+            const localObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.localContainer,
+                (connecting) => {
+                    return { client: "local" };
+                },
+                (connecting, state, sender) => {}
+            );
+            const remoteObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.remoteContainer,
+                (connecting) => {
+                    return { client: "remote" };
+                },
+                (connecting, state, sender) => {}
+            );
+
+            // Wait for the remote client to be observed
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            const interval = localObject.currentUpdateInterval;
+            assert(interval == 40, `interval == ${interval}`);
+            localObject.dispose();
+            remoteObject.dispose();
+        } finally {
+            LiveObjectSynchronizer.adaptiveUpdateInterval = policy;
+        }
+    });
+
+    it("Should ignore updates from senders without an allowed role", async () => {
+        const mock = new MockRoleVerifier([UserMeetingRole.attendee]);
+        LiveEvent.setRoleVerifier(mock);
+        try {
+            let received = 0;
+            const signalers = createConnectedSignalers();
+            const localObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.localContainer,
+                (connecting) => {
+                    return { client: "local" };
+                },
+                (connecting, state, sender) => {
+                    received++;
+                },
+                [UserMeetingRole.presenter]
+            );
+            const remoteObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.remoteContainer,
+                (connecting) => {
+                    return { client: "remote" };
+                },
+                (connecting, state, sender) => {}
+            );
+
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            assert(mock.blocked, `roles not verified`);
+            assert(received == 0, `received == ${received}`);
+            localObject.dispose();
+            remoteObject.dispose();
+        } finally {
+            LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+        }
+    });
+
+    it("Should not request resyncs from senders without an allowed role", async () => {
+        const mock = new MockRoleVerifier([UserMeetingRole.attendee]);
+        LiveEvent.setRoleVerifier(mock);
+        try {
+            const signalers = createConnectedSignalers();
+            const localObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.localContainer,
+                (connecting) => {
+                    return { client: "local" };
+                },
+                (connecting, state, sender) => {},
+                [UserMeetingRole.presenter]
+            );
+            const remoteObject = new LiveObjectSynchronizer(
+                "test",
+                new MockRuntimeSignaler(),
+                signalers.remoteContainer,
+                (connecting) => {
+                    return { client: "remote" };
+                },
+                (connecting, state, sender) => {}
+            );
+
+            // Wait for several update intervals
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            const heartbeats =
+                signalers.remoteContainer.getSentSignals("heartbeat");
+            const resyncs = signalers.localContainer.getSentSignals("resync");
+            assert(mock.blocked, `roles not verified`);
+            assert(heartbeats.length > 1, `heartbeats == ${heartbeats.length}`);
+            assert(resyncs.length == 0, `resyncs == ${resyncs.length}`);
+            localObject.dispose();
+            remoteObject.dispose();
+        } finally {
+            LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+        }
+    });
+
+    it("Should raise peerJoined and peerLeft events", async () => {
+        const joined = new Deferred<ILivePeer>();
+        const left = new Deferred<ILivePeer>();
+        const signalers = createConnectedSignalers();
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            new MockRuntimeSignaler(),
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            (connecting, state, sender) => {}
+        );
+        localObject.peerTimeout = 60;
+        localObject.on("peerJoined", (peer) => joined.resolve(peer));
+        localObject.on("peerLeft", (peer) => left.resolve(peer));
+
+        const remoteObject = new LiveObjectSynchronizer(
+            "test",
+            new MockRuntimeSignaler(),
+            signalers.remoteContainer,
+            (connecting) => {
+                return { client: "remote" };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        const peer = await joined.promise;
+        assert(
+            peer.clientId == signalers.remoteContainer.clientId,
+            `wrong peer joined`
+        );
+        assert(localObject.getPeers().length == 1, `peer not listed`);
+
+        // Stop remote updates
+        remoteObject.dispose();
+        const leftPeer = await left.promise;
+        assert(leftPeer.clientId == peer.clientId, `wrong peer left`);
+        assert(localObject.getPeers().length == 0, `peer still listed`);
+        localObject.dispose();
+    });
+
+    it("Should stop sending updates when the runtime is disposed", async () => {
+        const signalers = createConnectedSignalers();
+        const localRuntime = new MockRuntimeSignaler();
+        const localObject = new LiveObjectSynchronizer(
+            "test",
+            localRuntime,
+            signalers.localContainer,
+            (connecting) => {
+                return { client: "local" };
+            },
+            (connecting, state, sender) => {}
+        );
+
+        const getSentCount = () =>
+            signalers.localContainer.getSentSignals("update").length +
+            signalers.localContainer.getSentSignals("heartbeat").length;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        assert(getSentCount() > 0, `no updates sent`);
+
+        localRuntime.dispose();
+        const sent = getSentCount();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        assert(getSentCount() == sent, `sent ${getSentCount() - sent} updates`);
+        localObject.dispose();
+    });
 });
@@ -6,7 +6,10 @@
 import { strict as assert } from "assert";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
-import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    describeNoCompat,
+    itExpects,
+} from "@fluidframework/test-version-utils";
 import { LivePresence } from "../LivePresence";
 import { PresenceState } from "../LivePresenceUser";
 import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
@@ -437,4 +440,43 @@ describeNoCompat("LivePresence", (getTestObjectProvider) => {
 
         assert(count == 2, `Wrong number of users`);
     });
+
+    itExpects(
+        "Should validate presence received from the synchronizer",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveEventScope:InvalidEvent",
+            },
+        ],
+        async () => {
+            let invalid = 0;
+            object1.dataValidator = {
+                type: "object",
+                properties: { foo: { type: "string" } },
+            };
+            object1.on("invalidEvent", () => invalid++);
+            await object1.initialize("user1");
+
+            // Send a synchronizer update with malformed data
+            const containerRuntime = (object2 as any).context.containerRuntime;
+            containerRuntime.submitSignal("update", {
+                [object1.id]: {
+                    name: "UpdatePresence",
+                    timestamp: new Date().getTime(),
+                    clientId: containerRuntime.clientId,
+                    userId: "user2",
+                    state: PresenceState.online,
+                    data: { foo: 42 },
+                },
+            });
+
+            await waitForDelay(50);
+            assert(invalid > 0, `invalid == ${invalid}`);
+            assert(
+                !object1.getPresenceForUser("user2"),
+                `invalid presence added`
+            );
+        }
+    );
 });
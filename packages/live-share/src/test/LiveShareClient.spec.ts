@@ -0,0 +1,190 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import EventEmitter from "events";
+import { ContainerSchema, IFluidContainer } from "@fluidframework/fluid-static";
+import { LiveShareClient } from "../LiveShareClient";
+import { LiveEvent } from "../LiveEvent";
+import { LiveEventScope } from "../LiveEventScope";
+import { TestLiveShareHost } from "../TestLiveShareHost";
+import { MockTimestampProvider } from "./MockTimestampProvider";
+import {
+    ILiveShareContainerServices,
+    ILiveShareServiceAdapter,
+    LiveConnectionState,
+} from "../interfaces";
+
+class MockContainer extends EventEmitter {
+    public connectionState = 0;
+    public disposed = false;
+
+    public attach(): Promise<string> {
+        return Promise.resolve("created-container");
+    }
+
+    public dispose(): void {
+        this.disposed = true;
+        this.emit("disposed");
+    }
+}
+
+class MockServiceAdapter
+    implements ILiveShareServiceAdapter<ILiveShareContainerServices>
+{
+    public readonly isLocal = true;
+    public container = new MockContainer();
+    public created = 0;
+    public loadedIds: string[] = [];
+
+    public createContainer(containerSchema: ContainerSchema) {
+        this.created++;
+        return Promise.resolve(this.getResult());
+    }
+
+    public getContainer(containerId: string, containerSchema: ContainerSchema) {
+        this.loadedIds.push(containerId);
+        return Promise.resolve(this.getResult());
+    }
+
+    private getResult() {
+        if (this.container.disposed) {
+            this.container = new MockContainer();
+        }
+
+        return {
+            container: this.container as unknown as IFluidContainer,
+            services: {
+                audience: { getMyself: () => undefined },
+            } as unknown as ILiveShareContainerServices,
+        };
+    }
+}
+
+class FailingServiceAdapter extends MockServiceAdapter {
+    public readonly isLocal = false;
+
+    public getContainer(containerId: string, containerSchema: ContainerSchema) {
+        return Promise.reject(new Error(`failed to load container`));
+    }
+}
+
+const schema: ContainerSchema = { initialObjects: {} };
+
+describe("LiveShareClient", () => {
+    it("Should create containers using a custom adapter", async () => {
+        let savedId: string | undefined;
+        const host = TestLiveShareHost.create(
+            () => savedId,
+            (containerId) => (savedId = containerId)
+        );
+        const adapter = new MockServiceAdapter();
+        const client = new LiveShareClient(host, { adapter });
+        assert(client.isTesting, `local adapter not used for testing`);
+
+        let initialized = false;
+        const result = await client.joinContainer(
+            schema,
+            () => (initialized = true)
+        );
+        assert(result.created, `container not created`);
+        assert(initialized, `onContainerFirstCreated not called`);
+        assert(adapter.created == 1, `created == ${adapter.created}`);
+        assert(savedId == "created-container", `savedId == ${savedId}`);
+    });
+
+    it("Should load existing containers using a custom adapter", async () => {
+        const host = TestLiveShareHost.create(() => "existing-container");
+        const adapter = new MockServiceAdapter();
+        const client = new LiveShareClient(host, { adapter });
+
+        const result = await client.joinContainer(schema);
+        assert(!result.created, `container created`);
+        assert(adapter.created == 0, `created == ${adapter.created}`);
+        assert(
+            adapter.loadedIds[0] == "existing-container",
+            `loadedIds == ${adapter.loadedIds}`
+        );
+    });
+
+    it("Should track the containers connection state", async () => {
+        const host = TestLiveShareHost.create(() => "existing-container");
+        const adapter = new MockServiceAdapter();
+        const client = new LiveShareClient(host, { adapter });
+        const states: string[] = [];
+        client.on("connected", () => states.push(client.connectionState));
+        client.on("reconnecting", () => states.push(client.connectionState));
+        client.on("disconnected", () => states.push(client.connectionState));
+
+        await client.joinContainer(schema);
+        assert(client.connectionState == LiveConnectionState.disconnected);
+
+        adapter.container.emit("connected");
+        adapter.container.emit("disconnected");
+        adapter.container.emit("connected");
+        adapter.container.dispose();
+        assert.deepEqual(states, [
+            LiveConnectionState.connected,
+            LiveConnectionState.reconnecting,
+            LiveConnectionState.connected,
+            LiveConnectionState.disconnected,
+        ]);
+    });
+
+    it("Should leave and rejoin containers", async () => {
+        const host = TestLiveShareHost.create(() => "existing-container");
+        const adapter = new MockServiceAdapter();
+        const offlineQueue = { maxEvents: 10, ttl: 1000 };
+        const client = new LiveShareClient(host, { adapter, offlineQueue });
+
+        const first = await client.joinContainer(schema);
+        assert(LiveEventScope.defaultOfflineQueue === offlineQueue);
+        await assert.rejects(client.joinContainer(schema));
+        adapter.container.emit("connected");
+
+        client.leave();
+        assert(first.container.disposed, `container not disposed`);
+        assert(client.connectionState == LiveConnectionState.disconnected);
+        assert(LiveEventScope.defaultOfflineQueue === undefined);
+
+        const second = await client.joinContainer(schema);
+        assert(second.container !== first.container, `container reused`);
+        assert(!second.container.disposed, `container disposed`);
+
+        client.dispose();
+        assert(second.container.disposed, `container not disposed`);
+        await assert.rejects(client.joinContainer(schema));
+    });
+
+    it("Should restore globals when joining fails", async () => {
+        const previousQueue = { maxEvents: 1, ttl: 1 };
+        LiveEventScope.defaultOfflineQueue = previousQueue;
+        const roleVerifier = LiveEvent.getRoleVerifier();
+        const timestampProvider = LiveEvent.getTimestampProvider();
+        try {
+            const host = Object.assign(
+                TestLiveShareHost.create(() => "existing-container"),
+                {
+                    getSessionKey: () =>
+                        Promise.resolve({ keyId: "key1", key: "" }),
+                }
+            );
+            const client = new LiveShareClient(host, {
+                adapter: new FailingServiceAdapter(),
+                offlineQueue: { maxEvents: 10, ttl: 1000 },
+                timestampProvider: new MockTimestampProvider(),
+                encryptSignals: true,
+            });
+
+            await assert.rejects(client.joinContainer(schema));
+            assert(LiveEvent.getRoleVerifier() === roleVerifier);
+            assert(LiveEvent.getTimestampProvider() === timestampProvider);
+            assert(LiveEvent.getSignalEncryptor() === undefined);
+            assert(LiveEventScope.defaultOfflineQueue === previousQueue);
+        } finally {
+            LiveEventScope.defaultOfflineQueue = undefined;
+        }
+    });
+});
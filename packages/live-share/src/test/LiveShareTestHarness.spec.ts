@@ -0,0 +1,122 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { ContainerSchema } from "@fluidframework/fluid-static";
+import { LiveShareTestHarness } from "../testing";
+import { LiveState } from "../LiveState";
+import { LiveEvent } from "../LiveEvent";
+import { LiveTimer, LiveTimerEvents } from "../LiveTimer";
+import { UserMeetingRole } from "../interfaces";
+
+const schema: ContainerSchema = {
+    initialObjects: { state: LiveState, timer: LiveTimer },
+};
+
+function getState(container: any): LiveState<{ value: number }> {
+    return container.initialObjects.state;
+}
+
+describe("LiveShareTestHarness", () => {
+    let harness: LiveShareTestHarness;
+
+    afterEach(async () => await harness?.dispose());
+
+    it("Should join clients to a shared container", async () => {
+        harness = new LiveShareTestHarness(schema);
+        const clients = await harness.joinClients(3);
+        assert(clients[0].created, `first client didn't create container`);
+        assert(!clients[1].created && !clients[2].created);
+        await harness.waitForConnected();
+
+        await Promise.all(
+            clients.map((client) => getState(client.container).initialize())
+        );
+        getState(clients[1].container).changeState("running", { value: 1 });
+        const state = await harness.waitForConvergence(
+            (client) => getState(client.container).state
+        );
+        assert(state == "running", `state == ${state}`);
+    });
+
+    it("Should advance the harness clock", async () => {
+        harness = new LiveShareTestHarness(schema);
+        const start = harness.now;
+        await harness.advanceTime(60000);
+        const elapsed = LiveEvent.getTimestamp() - start;
+        assert(elapsed >= 60000, `elapsed == ${elapsed}`);
+        assert(Date.now() - start >= 60000, `Date not advanced`);
+    });
+
+    it("Should run timers in order when advancing the clock", async () => {
+        harness = new LiveShareTestHarness(schema);
+        const fired: string[] = [];
+        setTimeout(() => fired.push("b"), 20000);
+        setTimeout(() => fired.push("a"), 10000);
+        const hInterval = setInterval(() => fired.push("i"), 15000);
+        const hLater = setTimeout(() => fired.push("c"), 120000);
+
+        await harness.advanceTime(40000);
+        clearInterval(hInterval);
+        clearTimeout(hLater);
+        assert(fired.join() == "a,i,b,i", `fired == ${fired.join()}`);
+    });
+
+    it("Should drive live object timers from the harness clock", async () => {
+        harness = new LiveShareTestHarness(schema);
+        const [client] = await harness.joinClients(1);
+        await harness.waitForConnected();
+
+        let ticks = 0;
+        let finished = false;
+        const timer = client.container.initialObjects.timer as LiveTimer;
+        timer.tickRate = 1000;
+        timer.on(LiveTimerEvents.onTick, () => ticks++);
+        timer.on(LiveTimerEvents.finished, () => (finished = true));
+        timer.initialize();
+        const started = new Promise((resolve) =>
+            timer.once(LiveTimerEvents.started, resolve)
+        );
+        timer.start(60000);
+        await started;
+
+        // Timer finishes on the first tick after its duration
+        await harness.advanceTime(61000);
+        assert(finished, `timer not finished`);
+        assert(ticks >= 50, `ticks == ${ticks}`);
+    });
+
+    it("Should verify the roles of each client", async () => {
+        harness = new LiveShareTestHarness(schema, { verifyRoles: true });
+        const presenter = await harness.join({
+            roles: [UserMeetingRole.presenter],
+        });
+        const attendee = await harness.join({
+            roles: [UserMeetingRole.attendee],
+        });
+        await harness.waitForConnected();
+
+        const allowedRoles = [UserMeetingRole.presenter];
+        const presenterState = getState(presenter.container);
+        const attendeeState = getState(attendee.container);
+        await presenterState.initialize(allowedRoles);
+        await attendeeState.initialize(allowedRoles);
+
+        presenterState.changeState("presenting");
+        await harness.waitForConvergence(
+            (client) => getState(client.container).state
+        );
+
+        // Attendee changes are only applied locally
+        attendeeState.changeState("attending");
+        await assert.rejects(
+            harness.waitForConvergence(
+                (client) => getState(client.container).state,
+                500
+            )
+        );
+        assert(presenterState.state == "presenting");
+    });
+});
@@ -4,19 +4,35 @@
  */
 
 import { strict as assert } from "assert";
+import { IContainer } from "@fluidframework/container-definitions";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
-import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    describeNoCompat,
+    itExpects,
+} from "@fluidframework/test-version-utils";
 import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
 import { LiveState } from "../LiveState";
+import { LiveEvent } from "../LiveEvent";
+import { LocalRoleVerifier } from "../LocalRoleVerifier";
+import { UserMeetingRole } from "../interfaces";
+import {
+    getPatchValue,
+    parsePatchPath,
+    setPatchValue,
+    waitForDelay,
+} from "../internals";
 import { Deferred } from "./Deferred";
 
 interface TestStateData {
     value: string;
+    other?: string;
 }
 
 describeNoCompat("LiveState", (getTestObjectProvider) => {
     let provider: ITestObjectProvider;
+    let container1: IContainer;
+    let container2: IContainer;
     let object1: LiveState<TestStateData>;
     let object2: LiveState<TestStateData>;
 
@@ -26,13 +42,13 @@ describeNoCompat("LiveState", (getTestObjectProvider) => {
 
     beforeEach(async () => {
         provider = getTestObjectProvider();
-        const container1 = await provider.createContainer(LiveState.factory);
+        container1 = await provider.createContainer(LiveState.factory);
         object1 = await requestFluidObject<LiveState<TestStateData>>(
             container1,
             "default"
         );
 
-        const container2 = await provider.loadContainer(LiveState.factory);
+        container2 = await provider.loadContainer(LiveState.factory);
         object2 = await requestFluidObject<LiveState<TestStateData>>(
             container2,
             "default"
@@ -139,4 +155,502 @@ describeNoCompat("LiveState", (getTestObjectProvider) => {
         // Wait for events to trigger
         await done.promise;
     });
+
+    it("Should patchData() to update a single field", async () => {
+        await object1.initialize();
+
+        const done = new Deferred();
+        object2.on("stateChanged", (state, data, local) => {
+            try {
+                if (!local && data?.value == "secondValue") {
+                    assert(
+                        state == "testState",
+                        `object2: state == '${state}'`
+                    );
+                    assert(
+                        data.other == "otherValue",
+                        `object2: data.other == '${data.other}'`
+                    );
+                    done.resolve();
+                }
+            } catch (err) {
+                done.reject(err);
+            }
+        });
+        await object2.initialize();
+
+        object1.changeState("testState", {
+            value: "firstValue",
+            other: "otherValue",
+        });
+        object1.patchData([
+            { op: "replace", path: "/value", value: "secondValue" },
+        ]);
+        assert(
+            object1.data?.value == "secondValue",
+            `object1: data.value == '${object1.data?.value}'`
+        );
+
+        // Wait for events to trigger
+        await done.promise;
+    });
+
+    it("Should merge concurrent patchData() calls to different fields", async () => {
+        await object1.initialize();
+        await object2.initialize();
+
+        const waitForMerge = (object: LiveState<TestStateData>) => {
+            const done = new Deferred();
+            const check = () => {
+                const data = object.data;
+                if (data?.value == "object1" && data?.other == "object2") {
+                    done.resolve();
+                }
+            };
+            object.on("stateChanged", check);
+            check();
+            return done.promise;
+        };
+        const merged = Promise.all([
+            waitForMerge(object1),
+            waitForMerge(object2),
+        ]);
+
+        object1.patchData([{ op: "add", path: "/value", value: "object1" }]);
+        object2.patchData([{ op: "add", path: "/other", value: "object2" }]);
+
+        // Wait for both clients to converge
+        await merged;
+    });
+
+    it("Should reject invalid patches", async () => {
+        await assert.rejects(
+            object1.patchData([{ op: "add", path: "/value", value: "test" }]),
+            /not started/
+        );
+        await object1.initialize();
+        await assert.rejects(
+            object1.patchData([{ op: "replace", path: "value", value: "test" }])
+        );
+    });
+
+    it("Should reject patches that modify object prototypes", async () => {
+        await object1.initialize();
+        for (const path of [
+            "/__proto__/polluted",
+            "/constructor/prototype/polluted",
+        ]) {
+            await assert.rejects(
+                object1.patchData([{ op: "add", path, value: "yes" }])
+            );
+        }
+        assert.throws(() => parsePatchPath("/value/__proto__"));
+        assert.throws(() =>
+            setPatchValue({}, parsePatchPath("/__proto__/polluted"), "yes")
+        );
+        assert(({} as any).polluted === undefined, `prototype polluted`);
+        assert(
+            getPatchValue({}, parsePatchPath("/toString")) === undefined,
+            `inherited property returned`
+        );
+    });
+
+    it("Should reject illegal local transitions", async () => {
+        object1.defineStateMachine({
+            states: ["lobby", "running", "closed"],
+            transitions: [
+                { from: "lobby", to: "running" },
+                { from: "running", to: "closed" },
+            ],
+        });
+        await object1.initialize();
+
+        await object1.changeState("lobby");
+        await assert.rejects(object1.changeState("closed"));
+        await object1.changeState("running");
+        assert(
+            object1.state == "running",
+            `object1: state == '${object1.state}'`
+        );
+    });
+
+    it("Should reject local transitions without an allowed role", async () => {
+        object1.defineStateMachine({
+            states: ["lobby", "running"],
+            transitions: [
+                {
+                    from: "lobby",
+                    to: "running",
+                    allowedRoles: [UserMeetingRole.guest],
+                },
+                {
+                    from: "lobby",
+                    to: "lobby",
+                    allowedRoles: [UserMeetingRole.guest],
+                },
+            ],
+        });
+        await object1.initialize();
+
+        await object1.changeState("lobby");
+        await assert.rejects(object1.changeState("running"));
+        await assert.rejects(object1.changeState("lobby"));
+        await assert.rejects(
+            object1.patchData([{ op: "add", path: "/value", value: "x" }])
+        );
+        assert(
+            object1.state == "lobby",
+            `object1: state == '${object1.state}'`
+        );
+    });
+
+    itExpects(
+        "Should log malformed remote patches as patch errors",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveState:InvalidPatchError",
+            },
+        ],
+        async () => {
+            object1.defineStateMachine({
+                states: ["lobby"],
+                transitions: [],
+            });
+            await object1.initialize();
+            await object2.initialize();
+            await object1.changeState("lobby", { value: "lobby" });
+            await waitForDelay(50);
+
+            // Send a patch that can't be applied
+            (object2 as any)._changeStateEvent.sendEvent({
+                state: "lobby",
+                patch: [{ op: "add", path: "/__proto__/x", value: "x" }],
+            });
+            await waitForDelay(50);
+            assert(
+                object1.data?.value == "lobby",
+                `object1: value == '${object1.data?.value}'`
+            );
+        }
+    );
+
+    itExpects(
+        "Should log malformed remote versions as patch errors",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveState:InvalidPatchError",
+            },
+        ],
+        async () => {
+            await object1.initialize();
+            await object2.initialize();
+            await object1.changeState("lobby", { value: "lobby" });
+            await waitForDelay(50);
+
+            // Send a state with a version that can't be compared
+            (object2 as any)._changeStateEvent.sendEvent({
+                state: "running",
+                data: { value: "running" },
+                versions: { "/value": null },
+            });
+            await waitForDelay(50);
+            assert(
+                object1.state == "lobby",
+                `object1: state == '${object1.state}'`
+            );
+        }
+    );
+
+    it("Should ignore illegal remote transitions", async () => {
+        await object1.initialize();
+
+        const states: string[] = [];
+        const done = new Deferred();
+        object2.defineStateMachine({
+            states: ["lobby", "running", "closed"],
+            transitions: [
+                { from: "lobby", to: "running" },
+                {
+                    from: "running",
+                    to: "closed",
+                    guard: (data) => data?.value == "done",
+                },
+            ],
+        });
+        object2.on("stateChanged", (state, data, local) => {
+            states.push(state);
+            if (state == "closed") {
+                done.resolve();
+            }
+        });
+        await object2.initialize();
+
+        // Transitions are verified against the senders previous state
+        object1.changeState("lobby");
+        object1.changeState("closed", { value: "done" });
+        object1.changeState("lobby");
+        object1.changeState("running");
+        object1.changeState("closed", { value: "notDone" });
+        object1.changeState("closed", { value: "done" });
+
+        // Wait for events to trigger
+        await done.promise;
+        assert(
+            states.join() == "lobby,running,closed",
+            `object2: states == '${states.join()}'`
+        );
+    });
+
+    it("Should catch up after missing a transition", async () => {
+        const machine = {
+            states: ["lobby", "running", "closed"],
+            transitions: [
+                { from: "lobby", to: "running" },
+                { from: "running", to: "closed" },
+            ],
+        };
+        object1.defineStateMachine(machine);
+        object2.defineStateMachine(machine);
+        await object1.initialize();
+        await object2.initialize();
+
+        const lobby = new Deferred();
+        const closed = new Deferred();
+        object2.on("stateChanged", (state, data, local) => {
+            if (state == "lobby") {
+                lobby.resolve();
+            } else if (state == "closed") {
+                closed.resolve();
+            }
+        });
+        await object1.changeState("lobby");
+        await lobby.promise;
+
+        // Change state twice while object2 is disconnected
+        container2.disconnect();
+        await object1.changeState("running");
+        await object1.changeState("closed");
+        await waitForDelay(50);
+        assert(
+            object2.state == "lobby",
+            `object2: state == '${object2.state}'`
+        );
+        container2.connect();
+
+        // Wait for object2 to catch up
+        await closed.promise;
+    });
+
+    it("Should revert() to a previous state", async () => {
+        object1.maxHistoryLength = 5;
+        await object1.initialize();
+
+        object1.changeState("first", { value: "firstValue" });
+        object1.changeState("second", { value: "secondValue" });
+        object1.changeState("third", { value: "thirdValue" });
+        const history = object1.getHistory();
+        assert(
+            history.map((entry) => entry.state).join() == "first,second",
+            `object1: history == '${JSON.stringify(history)}'`
+        );
+
+        await object1.revert();
+        assert(
+            object1.state == "second",
+            `object1: state == '${object1.state}'`
+        );
+        assert(
+            object1.data?.value == "secondValue",
+            `object1: data == '${JSON.stringify(object1.data)}'`
+        );
+        await assert.rejects(object1.revert(10));
+    });
+
+    it("Should share history with late joiners", async () => {
+        object1.maxHistoryLength = 5;
+        await object1.initialize();
+        object1.changeState("first", { value: "firstValue" });
+        object1.changeState("second", { value: "secondValue" });
+
+        const done = new Deferred();
+        object2.maxHistoryLength = 5;
+        object2.on("stateChanged", (state, data, local) => {
+            try {
+                if (!local && state == "second") {
+                    const history = object2.getHistory();
+                    assert(
+                        history.length == 1 && history[0].state == "first",
+                        `object2: history == '${JSON.stringify(history)}'`
+                    );
+                    done.resolve();
+                }
+            } catch (err) {
+                done.reject(err);
+            }
+        });
+        await object2.initialize();
+
+        // Wait for events to trigger
+        await done.promise;
+    });
+
+    it("Should reload durable state after all clients leave", async () => {
+        object1.durable = true;
+        await object1.initialize();
+        object1.changeState("saved", { value: "savedValue" });
+
+        // Close the only client sharing state
+        await provider.ensureSynchronized();
+        container1.close();
+
+        const container3 = await provider.loadContainer(LiveState.factory);
+        const object3 = await requestFluidObject<LiveState<TestStateData>>(
+            container3,
+            "default"
+        );
+        const done = new Deferred();
+        object3.on("stateChanged", (state, data, local) => {
+            try {
+                assert(state == "saved", `object3: state == '${state}'`);
+                assert(
+                    data?.value == "savedValue",
+                    `object3: data == '${JSON.stringify(data)}'`
+                );
+                done.resolve();
+            } catch (err) {
+                done.reject(err);
+            }
+        });
+        object3.durable = true;
+        await object3.initialize();
+
+        // Wait for events to trigger
+        await done.promise;
+    });
+
+    it("Should reload role-restricted durable state", async () => {
+        const allowedRoles = [UserMeetingRole.presenter];
+        const verifier = new LocalRoleVerifier(true);
+        verifier.defaultRoles = [UserMeetingRole.attendee];
+        verifier.addClient(container1.clientId!, allowedRoles);
+        LiveEvent.setRoleVerifier(verifier);
+        try {
+            object1.durable = true;
+            await object1.initialize(allowedRoles);
+            object1.changeState("saved", { value: "savedValue" });
+
+            // Close the only client sharing state
+            await provider.ensureSynchronized();
+            container1.close();
+
+            // Rejoin as a client without an allowed role
+            const container3 = await provider.loadContainer(LiveState.factory);
+            const object3 = await requestFluidObject<LiveState<TestStateData>>(
+                container3,
+                "default"
+            );
+            const done = new Deferred();
+            object3.on("stateChanged", (state, data, local) => {
+                try {
+                    assert(state == "saved", `object3: state == '${state}'`);
+                    assert(
+                        data?.value == "savedValue",
+                        `object3: data == '${JSON.stringify(data)}'`
+                    );
+                    done.resolve();
+                } catch (err) {
+                    done.reject(err);
+                }
+            });
+            object3.durable = true;
+            await object3.initialize(allowedRoles);
+
+            // Wait for events to trigger
+            await done.promise;
+        } finally {
+            LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+        }
+    });
+
+    itExpects(
+        "Should ignore saved state from writers without an allowed role",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:SharedEvent:invalidRole",
+            },
+        ],
+        async () => {
+            const allowedRoles = [UserMeetingRole.presenter];
+            const verifier = new LocalRoleVerifier(true);
+            verifier.defaultRoles = [UserMeetingRole.attendee];
+            LiveEvent.setRoleVerifier(verifier);
+            try {
+                object1.durable = true;
+                await object1.initialize(allowedRoles);
+                // The local event is logged as coming from a client without an allowed role
+                object1.changeState("saved", { value: "savedValue" });
+
+                // Close the only client sharing state
+                await provider.ensureSynchronized();
+                container1.close();
+
+                // Rejoin as a client with an allowed role
+                const container3 = await provider.loadContainer(
+                    LiveState.factory
+                );
+                verifier.addClient(container3.clientId!, allowedRoles);
+                const object3 = await requestFluidObject<
+                    LiveState<TestStateData>
+                >(container3, "default");
+                object3.durable = true;
+                await object3.initialize(allowedRoles);
+                await waitForDelay(50);
+                assert(
+                    object3.state == LiveState.INITIAL_STATE,
+                    `object3: state == '${object3.state}'`
+                );
+            } finally {
+                LiveEvent.setRoleVerifier(new LocalRoleVerifier());
+            }
+        }
+    );
+
+    itExpects(
+        "Should validate state received from the synchronizer",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveEventScope:InvalidEvent",
+            },
+        ],
+        async () => {
+            let invalid = 0;
+            object1.dataValidator = {
+                type: "object",
+                required: ["value"],
+                properties: { value: { type: "string" } },
+            };
+            object1.on("invalidEvent", () => invalid++);
+            await object1.initialize();
+
+            // Send a synchronizer update with malformed data
+            const containerRuntime = (object2 as any).context.containerRuntime;
+            containerRuntime.submitSignal("update", {
+                [object1.id]: {
+                    name: "ChangeState",
+                    timestamp: new Date().getTime(),
+                    clientId: containerRuntime.clientId,
+                    state: "invalid",
+                    data: { value: 42 },
+                },
+            });
+
+            await waitForDelay(50);
+            assert(invalid > 0, `invalid == ${invalid}`);
+            assert(object1.state != "invalid", `object1: state == 'invalid'`);
+        }
+    );
 });
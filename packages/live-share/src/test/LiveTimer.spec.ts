@@ -6,7 +6,10 @@
 import { strict as assert } from "assert";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
-import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    describeNoCompat,
+    itExpects,
+} from "@fluidframework/test-version-utils";
 import { LiveTimer } from "../LiveTimer";
 import { Deferred } from "./Deferred";
 
@@ -253,4 +256,37 @@ describeNoCompat("LiveTimer", (getTestObjectProvider) => {
         // Wait for events to trigger
         await object1done.promise;
     });
+
+    itExpects(
+        "Should validate timer configs received from the synchronizer",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveEventScope:InvalidEvent",
+            },
+        ],
+        async () => {
+            let invalid = 0;
+            let started = 0;
+            object1.on("invalidEvent", () => invalid++);
+            object1.on("started", () => started++);
+            object1.initialize();
+
+            // Send a synchronizer update with a malformed config
+            const containerRuntime = (object2 as any).context.containerRuntime;
+            containerRuntime.submitSignal("update", {
+                [object1.id]: {
+                    configChangedAt: new Date().getTime(),
+                    clientId: containerRuntime.clientId,
+                    duration: "forever",
+                    position: 0,
+                    running: true,
+                },
+            });
+
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            assert(invalid > 0, `invalid == ${invalid}`);
+            assert(started == 0, `started == ${started}`);
+        }
+    );
 });
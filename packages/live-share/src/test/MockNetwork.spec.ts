@@ -0,0 +1,153 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
+import { MockNetwork } from "./MockNetwork";
+import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
+
+function createRuntimes(network: MockNetwork, count: number) {
+    const runtimes: MockRuntimeSignaler[] = [];
+    const received: string[][] = [];
+    for (let i = 0; i < count; i++) {
+        const runtime = new MockRuntimeSignaler();
+        const messages: string[] = [];
+        runtime.on("signal", (message, local) => {
+            if (!local) {
+                messages.push(message.content);
+            }
+        });
+        runtimes.push(runtime);
+        received.push(messages);
+    }
+    network.add(...runtimes);
+    return { runtimes, received };
+}
+
+describe("MockNetwork", () => {
+    it("Should deliver signals after their latency", () => {
+        const network = new MockNetwork(1, { latency: 50 });
+        const { runtimes, received } = createRuntimes(network, 2);
+
+        runtimes[0].submitSignal("test", "a");
+        network.tick(49);
+        assert(received[1].length == 0, `delivered early`);
+        network.tick(1);
+        assert.deepEqual(received[1], ["a"]);
+        assert(network.now == 50, `now == ${network.now}`);
+    });
+
+    it("Should reorder, drop and duplicate signals deterministically", () => {
+        const results: string[][] = [];
+        for (let run = 0; run < 2; run++) {
+            const network = new MockNetwork(42, {
+                latency: 10,
+                jitter: 100,
+                dropRate: 0.2,
+                duplicateRate: 0.2,
+            });
+            const { runtimes, received } = createRuntimes(network, 2);
+            for (let i = 0; i < 50; i++) {
+                runtimes[0].submitSignal("test", `${i}`);
+            }
+            network.flush();
+            results.push(received[1]);
+        }
+
+        const sent = Array.from({ length: 50 }, (v, i) => `${i}`);
+        assert.deepEqual(results[0], results[1]);
+        assert.notDeepEqual(results[0], sent);
+        assert(
+            new Set(results[0]).size < 50,
+            `no signals dropped: ${results[0]}`
+        );
+        assert(
+            new Set(results[0]).size < results[0].length,
+            `no signals duplicated: ${results[0]}`
+        );
+    });
+
+    it("Should drop signals between partitions until healed", () => {
+        const network = new MockNetwork(1, { latency: 10 });
+        const { runtimes, received } = createRuntimes(network, 3);
+
+        network.partition([runtimes[0]], [runtimes[1]]);
+        runtimes[0].submitSignal("test", "a");
+        network.flush();
+        assert.deepEqual(received[1], []);
+        assert.deepEqual(received[2], ["a"]);
+
+        network.heal();
+        runtimes[0].submitSignal("test", "b");
+        network.flush();
+        assert.deepEqual(received[1], ["b"]);
+    });
+
+    it("Should reconnect runtimes with a new client ID", () => {
+        const network = new MockNetwork(1, { latency: 10 });
+        const { runtimes, received } = createRuntimes(network, 2);
+        const clientId = runtimes[1].clientId;
+
+        runtimes[0].submitSignal("test", "a");
+        network.reconnect(runtimes[1], 20);
+        runtimes[0].submitSignal("test", "b");
+        network.flush();
+        assert(runtimes[1].clientId != clientId, `client ID not changed`);
+        assert.deepEqual(received[1], ["b"]);
+        assert(network.droppedCount == 1, `dropped == ${network.droppedCount}`);
+    });
+
+    describe("LiveObjectSynchronizer", () => {
+        // Temporarily change update interval
+        before(() => (LiveObjectSynchronizer.updateInterval = 20));
+        after(() => (LiveObjectSynchronizer.updateInterval = 5000));
+
+        it("Should converge on the latest states over a lossy network", async () => {
+            const network = new MockNetwork(7, {
+                latency: 5,
+                jitter: 20,
+                dropRate: 0.3,
+                duplicateRate: 0.1,
+            });
+            const { runtimes } = createRuntimes(network, 3);
+            const states = [0, 0, 0];
+            const seen = runtimes.map(() => new Map<string, number>());
+            const objects = runtimes.map(
+                (runtime, i) =>
+                    new LiveObjectSynchronizer<{ value: number }>(
+                        "test",
+                        runtime,
+                        runtime,
+                        (connecting) => ({ value: states[i] }),
+                        (connecting, state, sender) => {
+                            seen[i].set(sender, state!.value);
+                        }
+                    )
+            );
+
+            network.start();
+            for (let value = 1; value <= 5; value++) {
+                states.forEach((v, i) => (states[i] = value * 10 + i));
+                await new Promise((resolve) => setTimeout(resolve, 15));
+            }
+
+            // Wait for states to converge
+            const converged = () =>
+                runtimes.every((runtime, i) =>
+                    runtimes.every(
+                        (other, j) =>
+                            i == j || seen[i].get(other.clientId!) == states[j]
+                    )
+                );
+            for (let i = 0; i < 100 && !converged(); i++) {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+            }
+            network.stop();
+            objects.forEach((object) => object.dispose());
+            assert(converged(), `states didn't converge`);
+            assert(network.droppedCount > 0, `no signals dropped`);
+        });
+    });
+});
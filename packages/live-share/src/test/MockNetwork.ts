@@ -0,0 +1,340 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
+
+/**
+ * Conditions simulated for signals sent between two runtimes.
+ */
+export interface IMockLinkConditions {
+    /**
+     * Number of milliseconds it takes a signal to be delivered.
+     */
+    latency: number;
+
+    /**
+     * Maximum number of milliseconds randomly added to the latency. Signals with different
+     * delays get delivered out of order.
+     */
+    jitter: number;
+
+    /**
+     * Probability, between 0 and 1, of a signal being dropped.
+     */
+    dropRate: number;
+
+    /**
+     * Probability, between 0 and 1, of a signal being delivered twice.
+     */
+    duplicateRate: number;
+}
+
+interface IPendingSignal {
+    deliverAt: number;
+    order: number;
+    from: MockRuntimeSignaler;
+    to: MockRuntimeSignaler;
+    message: IInboundSignalMessage;
+}
+
+/**
+ * Simulated network that delivers the signals sent by `MockRuntimeSignaler` instances.
+ *
+ * @remarks
+ * Signals are queued and only delivered when the networks virtual clock is advanced using
+ * `tick()` or `flush()`. All random decisions come from a seeded generator, so a test run
+ * with the same seed and sequence of sends always produces the same deliveries. Use
+ * `start()` to advance the clock from a real timer when testing objects that send signals
+ * on their own timers.
+ */
+export class MockNetwork {
+    private readonly _runtimes: MockRuntimeSignaler[] = [];
+    private readonly _links = new Map<
+        MockRuntimeSignaler,
+        Map<MockRuntimeSignaler, Partial<IMockLinkConditions>>
+    >();
+    private readonly _partitions = new Map<MockRuntimeSignaler, number>();
+    private _pending: IPendingSignal[] = [];
+    private readonly _random: () => number;
+    private _now = 0;
+    private _order = 0;
+    private _timer?: any;
+
+    /**
+     * Creates a new `MockNetwork` instance.
+     * @param seed Optional. Seed for the random number generator. Defaults to `1`.
+     * @param conditions Optional. Default conditions for all links.
+     */
+    constructor(seed = 1, conditions?: Partial<IMockLinkConditions>) {
+        this._random = createRandom(seed);
+        this.conditions = Object.assign(
+            { latency: 0, jitter: 0, dropRate: 0, duplicateRate: 0 },
+            conditions
+        );
+    }
+
+    /**
+     * Default conditions for all links.
+     */
+    public conditions: IMockLinkConditions;
+
+    /**
+     * Current time of the networks virtual clock.
+     */
+    public get now(): number {
+        return this._now;
+    }
+
+    /**
+     * Number of signals waiting to be delivered.
+     */
+    public get pendingCount(): number {
+        return this._pending.length;
+    }
+
+    /**
+     * Number of signals dropped.
+     */
+    public droppedCount = 0;
+
+    /**
+     * Number of signals delivered, including duplicates.
+     */
+    public deliveredCount = 0;
+
+    /**
+     * Adds runtimes to the network.
+     * @param runtimes Runtimes to add.
+     */
+    public add(...runtimes: MockRuntimeSignaler[]): this {
+        runtimes.forEach((runtime) => {
+            if (this._runtimes.indexOf(runtime) < 0) {
+                this._runtimes.push(runtime);
+                runtime.network = this;
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Overrides the conditions of the link used for signals sent from one runtime to another.
+     * @param from Runtime sending signals.
+     * @param to Runtime receiving signals.
+     * @param conditions Conditions to apply to the link.
+     * @param bidirectional Optional. If true the conditions are also applied to signals sent
+     * in the other direction. Defaults to `true`.
+     */
+    public setLink(
+        from: MockRuntimeSignaler,
+        to: MockRuntimeSignaler,
+        conditions: Partial<IMockLinkConditions>,
+        bidirectional = true
+    ): this {
+        if (!this._links.has(from)) {
+            this._links.set(from, new Map());
+        }
+        this._links.get(from)!.set(to, conditions);
+        if (bidirectional) {
+            this.setLink(to, from, conditions, false);
+        }
+        return this;
+    }
+
+    /**
+     * Splits the network into groups of runtimes that can't reach each other.
+     *
+     * @remarks
+     * Runtimes that aren't in any group can still reach everyone. Signals already in flight
+     * between groups are dropped when they arrive.
+     * @param groups Groups of runtimes to create.
+     */
+    public partition(...groups: MockRuntimeSignaler[][]): this {
+        this._partitions.clear();
+        groups.forEach((group, i) =>
+            group.forEach((runtime) => this._partitions.set(runtime, i))
+        );
+        return this;
+    }
+
+    /**
+     * Removes any partitions created using `partition()`.
+     */
+    public heal(): this {
+        this._partitions.clear();
+        return this;
+    }
+
+    /**
+     * Disconnects a runtime and reconnects it with a new client ID.
+     *
+     * @remarks
+     * Signals sent to the runtime while disconnected are dropped.
+     * @param runtime Runtime to reconnect.
+     * @param delay Optional. Number of milliseconds on the virtual clock the runtime stays
+     * disconnected for. Defaults to `0`.
+     */
+    public reconnect(runtime: MockRuntimeSignaler, delay = 0): void {
+        runtime.disconnect();
+        if (delay > 0) {
+            this.tick(delay);
+        }
+        runtime.connect();
+    }
+
+    /**
+     * Returns true if signals can currently be sent between two runtimes.
+     * @param from Runtime sending signals.
+     * @param to Runtime receiving signals.
+     */
+    public canReach(
+        from: MockRuntimeSignaler,
+        to: MockRuntimeSignaler
+    ): boolean {
+        const fromGroup = this._partitions.get(from);
+        const toGroup = this._partitions.get(to);
+        return (
+            fromGroup == undefined ||
+            toGroup == undefined ||
+            fromGroup == toGroup
+        );
+    }
+
+    /**
+     * @hidden
+     * Called by `MockRuntimeSignaler.submitSignal()` to send a signal to the other runtimes.
+     */
+    public send(
+        from: MockRuntimeSignaler,
+        message: IInboundSignalMessage
+    ): void {
+        if (!from.connected) {
+            this.droppedCount += this._runtimes.length - 1;
+            return;
+        }
+
+        this._runtimes.forEach((to) => {
+            if (to === from) {
+                return;
+            }
+
+            const conditions = this.getConditions(from, to);
+            if (this._random() < conditions.dropRate) {
+                this.droppedCount++;
+                return;
+            }
+
+            this.enqueue(from, to, message, conditions);
+            if (this._random() < conditions.duplicateRate) {
+                this.enqueue(from, to, message, conditions);
+            }
+        });
+    }
+
+    /**
+     * Advances the virtual clock, delivering any signals that become due.
+     * @param ms Number of milliseconds to advance the clock by.
+     */
+    public tick(ms: number): void {
+        const end = this._now + ms;
+        while (this._pending.length > 0 && this._pending[0].deliverAt <= end) {
+            const signal = this._pending.shift()!;
+            this._now = Math.max(this._now, signal.deliverAt);
+            this.deliver(signal);
+        }
+        this._now = end;
+    }
+
+    /**
+     * Advances the virtual clock until all pending signals, including any sent while
+     * delivering them, have been delivered.
+     */
+    public flush(): void {
+        while (this._pending.length > 0) {
+            this.tick(this._pending[0].deliverAt - this._now);
+        }
+    }
+
+    /**
+     * Starts advancing the virtual clock from a real timer.
+     * @param interval Optional. Number of milliseconds between ticks. Defaults to `5`.
+     */
+    public start(interval = 5): void {
+        this.stop();
+        this._timer = setInterval(() => this.tick(interval), interval);
+    }
+
+    /**
+     * Stops advancing the virtual clock from a real timer.
+     */
+    public stop(): void {
+        if (this._timer) {
+            clearInterval(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    private getConditions(
+        from: MockRuntimeSignaler,
+        to: MockRuntimeSignaler
+    ): IMockLinkConditions {
+        return Object.assign(
+            {},
+            this.conditions,
+            this._links.get(from)?.get(to)
+        );
+    }
+
+    private enqueue(
+        from: MockRuntimeSignaler,
+        to: MockRuntimeSignaler,
+        message: IInboundSignalMessage,
+        conditions: IMockLinkConditions
+    ): void {
+        const delay = conditions.latency + this._random() * conditions.jitter;
+        const signal: IPendingSignal = {
+            deliverAt: this._now + Math.round(delay),
+            order: this._order++,
+            from,
+            to,
+            message,
+        };
+
+        // Keep pending signals sorted by delivery time, then send order
+        let i = this._pending.length;
+        while (
+            i > 0 &&
+            (this._pending[i - 1].deliverAt > signal.deliverAt ||
+                (this._pending[i - 1].deliverAt == signal.deliverAt &&
+                    this._pending[i - 1].order > signal.order))
+        ) {
+            i--;
+        }
+        this._pending.splice(i, 0, signal);
+    }
+
+    private deliver(signal: IPendingSignal): void {
+        if (signal.to.connected && this.canReach(signal.from, signal.to)) {
+            this.deliveredCount++;
+            signal.to.receive(signal.message);
+        } else {
+            this.droppedCount++;
+        }
+    }
+}
+
+/**
+ * Seeded pseudo random number generator (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
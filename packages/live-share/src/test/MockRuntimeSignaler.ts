@@ -8,6 +8,7 @@ import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
 import { MockLogger } from "@fluidframework/telemetry-utils";
 import { IRuntimeSignaler } from "../LiveEventScope";
 import { v4 } from "uuid";
+import { MockNetwork } from "./MockNetwork";
 
 export class MockRuntimeSignaler implements IRuntimeSignaler {
     private _connected: MockRuntimeSignaler[] = [];
@@ -16,6 +17,9 @@ export class MockRuntimeSignaler implements IRuntimeSignaler {
         local: boolean
     ) => void)[] = [];
     private _connectedListeners: ((clientId: string) => void)[] = [];
+    private _disconnectedListeners: (() => void)[] = [];
+    private _disposeListeners: (() => void)[] = [];
+    private _removeMemberListeners: ((clientId: string) => void)[] = [];
 
     public constructor(hasClientId = true, isConnected = true) {
         this.clientId = hasClientId ? v4() : undefined;
@@ -26,6 +30,7 @@ export class MockRuntimeSignaler implements IRuntimeSignaler {
     public clientId: string | undefined;
     public connected: boolean;
     public logger: ITelemetryLogger;
+    public network?: MockNetwork;
 
     public connect(): void {
         if (!this.connected) {
@@ -35,9 +40,58 @@ export class MockRuntimeSignaler implements IRuntimeSignaler {
         }
     }
 
+    public disconnect(): void {
+        if (this.connected) {
+            const clientId = this.clientId;
+            this.connected = false;
+            this.clientId = undefined;
+            this._disconnectedListeners.forEach((fn) => fn());
+
+            // Remove client from the audience of connected runtimes
+            if (clientId) {
+                this._connected.forEach((runtime) =>
+                    runtime._removeMemberListeners.forEach((fn) => fn(clientId))
+                );
+            }
+        }
+    }
+
+    public getAudience() {
+        return {
+            getMembers: () => {
+                const members = new Map<string, any>();
+                [this as MockRuntimeSignaler]
+                    .concat(this._connected)
+                    .forEach((runtime) => {
+                        if (runtime.connected && runtime.clientId) {
+                            members.set(runtime.clientId, {});
+                        }
+                    });
+                return members;
+            },
+            on: (
+                event: "removeMember",
+                listener: (clientId: string) => void
+            ) => {
+                this._removeMemberListeners.push(listener);
+                return this;
+            },
+        };
+    }
+
+    public dispose(): void {
+        this._disposeListeners.forEach((fn) => fn());
+    }
+
     public on(event: "connected", listener: (clientId: string) => void): this;
     // Note: the following is not actually a duplicate
     // eslint-disable-next-line no-dupe-class-members
+    public on(event: "disconnected", listener: () => void): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
+    public on(event: "dispose", listener: () => void): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
     public on(
         event: "signal",
         listener: (message: IInboundSignalMessage, local: boolean) => void
@@ -49,6 +103,12 @@ export class MockRuntimeSignaler implements IRuntimeSignaler {
             case "connected":
                 this._connectedListeners.push(listener);
                 break;
+            case "disconnected":
+                this._disconnectedListeners.push(listener);
+                break;
+            case "dispose":
+                this._disposeListeners.push(listener);
+                break;
             case "signal":
                 this._signalListeners.push(listener);
                 break;
@@ -67,7 +127,15 @@ export class MockRuntimeSignaler implements IRuntimeSignaler {
         this.emit(msg, true);
 
         // Raise remote events
-        this._connected.forEach((runtime) => runtime.emit(msg, false));
+        if (this.network) {
+            this.network.send(this, msg);
+        } else {
+            this._connected.forEach((runtime) => runtime.emit(msg, false));
+        }
+    }
+
+    public receive(message: IInboundSignalMessage): void {
+        this.emit(message, false);
     }
 
     private emit(message: IInboundSignalMessage, local: boolean): void {
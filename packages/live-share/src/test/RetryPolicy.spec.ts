@@ -0,0 +1,117 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { ITelemetryBaseEvent } from "@fluidframework/common-definitions";
+import { RetryPolicy } from "../RetryPolicy";
+import { TelemetryEvents } from "../internals";
+
+describe("RetryPolicy", () => {
+    it("Should use the default retry schedule", () => {
+        const policy = new RetryPolicy();
+        assert(
+            policy.options.maxAttempts == 6,
+            `maxAttempts == ${policy.options.maxAttempts}`
+        );
+        const delays = [1, 2, 3, 4, 5].map((retry) => policy.getDelay(retry));
+        assert.deepEqual(delays, [100, 200, 200, 400, 600]);
+    });
+
+    it("Should repeat the last configured delay", () => {
+        const policy = new RetryPolicy({ delays: [10, 50] });
+        const delays = [1, 2, 3, 4].map((retry) => policy.getDelay(retry));
+        assert.deepEqual(delays, [10, 50, 50, 50]);
+    });
+
+    it("Should compute exponential backoff delays", () => {
+        const policy = new RetryPolicy({
+            initialDelay: 100,
+            backoffFactor: 2,
+            maxDelay: 500,
+        });
+        assert(
+            policy.getDelay(1) == 100,
+            `getDelay(1) == ${policy.getDelay(1)}`
+        );
+        assert(
+            policy.getDelay(2) == 200,
+            `getDelay(2) == ${policy.getDelay(2)}`
+        );
+        assert(
+            policy.getDelay(3) == 400,
+            `getDelay(3) == ${policy.getDelay(3)}`
+        );
+        assert(
+            policy.getDelay(4) == 500,
+            `getDelay(4) == ${policy.getDelay(4)}`
+        );
+    });
+
+    it("Should retry failed requests until they succeed", async () => {
+        const events: ITelemetryBaseEvent[] = [];
+        const policy = new RetryPolicy({
+            initialDelay: 1,
+            logger: { send: (event) => events.push(event) },
+        });
+
+        const attempts: number[] = [];
+        const result = await policy.execute("test", async (attempt) => {
+            attempts.push(attempt);
+            if (attempt == 1) {
+                throw new Error("failed");
+            }
+            return attempt == 3 ? "done" : undefined;
+        });
+        assert(result == "done", `result == ${result}`);
+        assert.deepEqual(attempts, [1, 2, 3]);
+        assert(events.length == 3, `events.length == ${events.length}`);
+        assert(events[0].category == "performance");
+        assert(events[0].eventName == TelemetryEvents.RetryPolicy.Attempt);
+        assert(events[0].request == "test");
+        assert.deepEqual(
+            events.map((event) => event.succeeded),
+            [false, false, true]
+        );
+    });
+
+    it("Should throw after reaching max attempts", async () => {
+        const policy = new RetryPolicy({ initialDelay: 1, maxAttempts: 3 });
+
+        let attempts = 0;
+        await assert.rejects(
+            policy.execute(
+                "test",
+                async () => {
+                    attempts++;
+                    return false;
+                },
+                {
+                    isSucceeded: (result) => !!result,
+                    createError: () => new Error("custom"),
+                }
+            ),
+            { message: "custom" }
+        );
+        assert(attempts == 3, `attempts == ${attempts}`);
+    });
+
+    it("Should stop retrying when aborted", async () => {
+        const policy = new RetryPolicy({ initialDelay: 1000 });
+        const controller = new AbortController();
+
+        let attempts = 0;
+        const pResult = policy.execute(
+            "test",
+            async () => {
+                attempts++;
+                return undefined;
+            },
+            { signal: controller.signal }
+        );
+        setTimeout(() => controller.abort(), 10);
+        await assert.rejects(pResult, /aborted/);
+        assert(attempts == 1, `attempts == ${attempts}`);
+    });
+});
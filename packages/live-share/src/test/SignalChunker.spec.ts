@@ -0,0 +1,104 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { ISignalChunk, SignalChunker } from "../internals";
+
+const maxPayloadSize = 10000;
+const maxSignalSize = 500;
+
+function createChunk(chunkId: string, count: number): ISignalChunk {
+    return { chunkId, index: 0, count, type: "test", data: "x" };
+}
+
+describe("SignalChunker", () => {
+    it("Should reassemble chunks received out of order", () => {
+        const chunker = new SignalChunker();
+        const value = { value: "x".repeat(2000) };
+        const chunks = SignalChunker.split("test", value, maxSignalSize)!;
+        assert(chunks.length > 1, `chunks.length == ${chunks.length}`);
+
+        let signal;
+        chunks.reverse().forEach((chunk) => {
+            signal = chunker.receive(
+                "sender",
+                chunk,
+                maxPayloadSize,
+                maxSignalSize
+            );
+        });
+        assert.deepEqual(signal, { type: "test", content: value });
+    });
+
+    it("Should ignore chunks with invalid counts, indexes or IDs", () => {
+        const chunker = new SignalChunker();
+        const invalid: any[] = [
+            createChunk("a", 1e10),
+            createChunk("a", 1.5),
+            createChunk("a", 0),
+            createChunk("a", -1),
+            createChunk("a", "2" as any),
+            createChunk("", 2),
+            createChunk("a".repeat(100), 2),
+            { ...createChunk("a", 2), index: 2 },
+            { ...createChunk("a", 2), index: 0.5 },
+            { ...createChunk("a", 2), data: "x".repeat(maxSignalSize) },
+            null,
+        ];
+        invalid.forEach((chunk) =>
+            assert.doesNotThrow(() => {
+                const signal = chunker.receive(
+                    "sender",
+                    chunk,
+                    maxPayloadSize,
+                    maxSignalSize
+                );
+                assert(signal === undefined, `signal returned`);
+            })
+        );
+    });
+
+    it("Should limit the pending signals of each sender", () => {
+        const chunker = new SignalChunker();
+        const chunks = SignalChunker.split(
+            "test",
+            { value: "x".repeat(1000) },
+            maxSignalSize
+        )!;
+
+        // Flood chunker with incomplete signals from one sender
+        for (let i = 0; i < 100; i++) {
+            chunker.receive(
+                "flooder",
+                createChunk(`${i}`, 2),
+                maxPayloadSize,
+                maxSignalSize
+            );
+        }
+
+        // Other senders are unaffected
+        let signal;
+        chunks.forEach((chunk) => {
+            signal = chunker.receive(
+                "sender",
+                chunk,
+                maxPayloadSize,
+                maxSignalSize
+            );
+        });
+        assert(signal !== undefined, `signal from other sender dropped`);
+
+        // Flooding sender can't start new signals
+        chunks.forEach((chunk) => {
+            signal = chunker.receive(
+                "flooder",
+                chunk,
+                maxPayloadSize,
+                maxSignalSize
+            );
+        });
+        assert(signal === undefined, `signal from flooding sender received`);
+    });
+});
@@ -31,6 +31,25 @@ class TestTimestampProvider extends TimestampProvider {
     }
 }
 
+class DriftingTimestampProvider extends TimestampProvider {
+    private readonly _start = new Date().getTime();
+    public offset = 0;
+    public clockDrift = 0;
+
+    protected getNtpTime(): Promise<INtpTimeInfo> {
+        const now = new Date().getTime();
+        const time = new Date(
+            now +
+                this.offset +
+                Math.round(this.clockDrift * (now - this._start))
+        );
+        return Promise.resolve({
+            ntpTime: time.toISOString(),
+            ntpTimeInUTC: time.getTime(),
+        });
+    }
+}
+
 describe("TimestampProvider", () => {
     it("Should start", async () => {
         const done = new Deferred();
@@ -113,4 +132,78 @@ describe("TimestampProvider", () => {
             done();
         }
     });
+
+    describe("synchronization", () => {
+        // Temporarily change sync intervals
+        before(() => {
+            TimestampProvider.syncInterval = 10;
+            TimestampProvider.resyncInterval = 20;
+        });
+        after(() => {
+            TimestampProvider.syncInterval = 5 * 1000;
+            TimestampProvider.resyncInterval = 60 * 1000;
+        });
+
+        it("Should keep synchronizing after starting up", async () => {
+            const provider = new DriftingTimestampProvider();
+            let synced = 0;
+            provider.on("clockSynced", () => synced++);
+            try {
+                await provider.start();
+                await new Promise((resolve) => setTimeout(resolve, 300));
+                assert(synced > 8, `synced == ${synced}`);
+            } finally {
+                provider.stop();
+            }
+        });
+
+        it("Should smooth small corrections", async () => {
+            const provider = new DriftingTimestampProvider();
+            const errors: number[] = [];
+            try {
+                await provider.start();
+                provider.on("accuracyChanged", (error) => errors.push(error));
+                provider.offset = 500;
+                await new Promise((resolve) =>
+                    provider.once("clockSynced", resolve)
+                );
+                assert(errors[0] > 200, `errors == ${errors}`);
+
+                // Correction should be applied gradually
+                await new Promise((resolve) => setTimeout(resolve, 200));
+                const offset = provider.getTimestamp() - new Date().getTime();
+                assert(offset > 0 && offset < 500, `offset == ${offset}`);
+            } finally {
+                provider.stop();
+            }
+        });
+
+        it("Should apply large corrections immediately", async () => {
+            const provider = new DriftingTimestampProvider();
+            try {
+                await provider.start();
+                provider.offset = 5000;
+                await new Promise((resolve) =>
+                    provider.once("clockSynced", resolve)
+                );
+
+                const offset = provider.getTimestamp() - new Date().getTime();
+                assert(offset >= 4995 && offset <= 5005, `offset == ${offset}`);
+            } finally {
+                provider.stop();
+            }
+        });
+
+        it("Should estimate clock drift", async () => {
+            const provider = new DriftingTimestampProvider();
+            provider.clockDrift = 0.1;
+            try {
+                await provider.start();
+                await new Promise((resolve) => setTimeout(resolve, 300));
+                assert(provider.drift > 0, `drift == ${provider.drift}`);
+            } finally {
+                provider.stop();
+            }
+        });
+    });
 });
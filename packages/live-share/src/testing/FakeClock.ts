@@ -0,0 +1,351 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+const RealDate = Date;
+const realSetTimeout = setTimeout;
+const realClearTimeout = clearTimeout;
+const realSetInterval = setInterval;
+const realClearInterval = clearInterval;
+
+/**
+ * @hidden
+ * Handle returned for timers scheduled while a `FakeClock` is installed.
+ */
+class FakeTimerHandle {
+    constructor(
+        private readonly _clock: FakeClock,
+        public readonly id: number
+    ) {}
+
+    public ref(): this {
+        this._clock.setRef(this.id, true);
+        return this;
+    }
+
+    public unref(): this {
+        this._clock.setRef(this.id, false);
+        return this;
+    }
+
+    public hasRef(): boolean {
+        return this._clock.hasRef(this.id);
+    }
+
+    public refresh(): this {
+        this._clock.refresh(this.id);
+        return this;
+    }
+
+    public [Symbol.toPrimitive](): number {
+        return this.id;
+    }
+}
+
+/**
+ * @hidden
+ */
+interface IFakeTimer {
+    id: number;
+    due: number;
+    delay: number;
+    interval: boolean;
+    callback: (...args: any[]) => void;
+    args: any[];
+    ref: boolean;
+}
+
+/**
+ * @hidden
+ * Clock that replaces the global `Date` and timer functions while installed.
+ *
+ * @remarks
+ * The clock follows real time, so anything waiting on a timer keeps running normally, but
+ * can also be moved forward using `advance()`. Timers that become due while advancing are
+ * run in order, with any pending work allowed to run between each timer.
+ */
+export class FakeClock {
+    private readonly _timers = new Map<number, IFakeTimer>();
+    private _nextId = 1;
+    private _offset = 0;
+    private _pump?: ReturnType<typeof realSetTimeout>;
+    private _isInstalled = false;
+    private _isAdvancing = false;
+    private _globals?: {
+        Date: DateConstructor;
+        setTimeout: any;
+        clearTimeout: any;
+        setInterval: any;
+        clearInterval: any;
+    };
+
+    /**
+     * Current time of the clock.
+     */
+    public now(): number {
+        return RealDate.now() + this._offset;
+    }
+
+    /**
+     * Replaces the global `Date` and timer functions.
+     */
+    public install(): void {
+        if (this._isInstalled) {
+            return;
+        }
+
+        this._isInstalled = true;
+        const clock = this;
+        class FakeDate extends RealDate {
+            constructor(...args: any[]) {
+                if (args.length == 0) {
+                    super(clock.now());
+                } else {
+                    super(...(args as [any]));
+                }
+            }
+
+            public static now(): number {
+                return clock.now();
+            }
+
+            // Dates created before the clock was installed are still dates
+            public static [Symbol.hasInstance](value: any): boolean {
+                return value instanceof RealDate;
+            }
+        }
+
+        const fakes = {
+            Date: FakeDate as DateConstructor,
+            setTimeout: (callback: any, delay?: number, ...args: any[]) =>
+                this.schedule(callback, delay, args, false),
+            clearTimeout: (handle: any) => this.clear(handle, realClearTimeout),
+            setInterval: (callback: any, delay?: number, ...args: any[]) =>
+                this.schedule(callback, delay, args, true),
+            clearInterval: (handle: any) =>
+                this.clear(handle, realClearInterval),
+        };
+        Object.assign(globalThis, fakes);
+        this._globals = fakes;
+    }
+
+    /**
+     * Restores the global `Date` and timer functions.
+     *
+     * @remarks
+     * Timers still pending are moved to the real timer functions.
+     */
+    public uninstall(): void {
+        if (!this._isInstalled) {
+            return;
+        }
+
+        this._isInstalled = false;
+        const g = globalThis as any;
+        const globals = this._globals!;
+        const originals: any = {
+            Date: RealDate,
+            setTimeout: realSetTimeout,
+            clearTimeout: realClearTimeout,
+            setInterval: realSetInterval,
+            clearInterval: realClearInterval,
+        };
+        for (const name in originals) {
+            if (g[name] === (globals as any)[name]) {
+                g[name] = originals[name];
+            }
+        }
+
+        this.stopPump();
+        const now = this.now();
+        this._timers.forEach((timer) => {
+            const delay = Math.max(timer.due - now, 0);
+            const handle = timer.interval
+                ? realSetInterval(timer.callback, timer.delay, ...timer.args)
+                : realSetTimeout(timer.callback, delay, ...timer.args);
+            if (!timer.ref) {
+                handle.unref?.();
+            }
+        });
+        this._timers.clear();
+    }
+
+    /**
+     * Moves the clock forward, running any timers that become due in order.
+     * @param ms Number of milliseconds to advance the clock by.
+     */
+    public async advance(ms: number): Promise<void> {
+        if (this._isAdvancing) {
+            throw new Error(`FakeClock: clock is already being advanced.`);
+        }
+
+        this._isAdvancing = true;
+        this.stopPump();
+        try {
+            const target = this.now() + Math.max(ms, 0);
+            let timer = this.getNextTimer(target);
+            while (timer) {
+                this.moveTo(timer.due);
+                this.run(timer);
+                await yieldToPendingWork();
+                timer = this.getNextTimer(target);
+            }
+
+            this.moveTo(target);
+            await yieldToPendingWork();
+        } finally {
+            this._isAdvancing = false;
+            this.startPump();
+        }
+    }
+
+    /**
+     * @hidden
+     */
+    public setRef(id: number, ref: boolean): void {
+        const timer = this._timers.get(id);
+        if (timer) {
+            timer.ref = ref;
+            this.startPump();
+        }
+    }
+
+    /**
+     * @hidden
+     */
+    public hasRef(id: number): boolean {
+        return this._timers.get(id)?.ref ?? false;
+    }
+
+    /**
+     * @hidden
+     */
+    public refresh(id: number): void {
+        const timer = this._timers.get(id);
+        if (timer) {
+            timer.due = this.now() + timer.delay;
+            this.startPump();
+        }
+    }
+
+    private schedule(
+        callback: any,
+        delay: number | undefined,
+        args: any[],
+        interval: boolean
+    ): FakeTimerHandle {
+        const id = this._nextId++;
+        const ms = Math.max(Number(delay) || 0, interval ? 1 : 0);
+        this._timers.set(id, {
+            id,
+            due: this.now() + ms,
+            delay: ms,
+            interval,
+            callback,
+            args,
+            ref: true,
+        });
+        this.startPump();
+        return new FakeTimerHandle(this, id);
+    }
+
+    private clear(handle: any, realClear: (handle: any) => void): void {
+        if (handle instanceof FakeTimerHandle) {
+            this._timers.delete(handle.id);
+        } else if (typeof handle == "number" && this._timers.has(handle)) {
+            this._timers.delete(handle);
+        } else if (handle != undefined) {
+            // Timer was scheduled before the clock was installed
+            realClear(handle);
+        }
+    }
+
+    private getNextTimer(before: number): IFakeTimer | undefined {
+        let next: IFakeTimer | undefined;
+        this._timers.forEach((timer) => {
+            if (
+                timer.due <= before &&
+                (!next ||
+                    timer.due < next.due ||
+                    (timer.due == next.due && timer.id < next.id))
+            ) {
+                next = timer;
+            }
+        });
+        return next;
+    }
+
+    private moveTo(time: number): void {
+        // Never move the clock backwards
+        this._offset += Math.max(time - this.now(), 0);
+    }
+
+    private run(timer: IFakeTimer): void {
+        if (timer.interval) {
+            timer.due += timer.delay;
+        } else {
+            this._timers.delete(timer.id);
+        }
+
+        try {
+            timer.callback(...timer.args);
+        } catch (err: any) {
+            console.error(`FakeClock: error running timer - ${err.toString()}`);
+        }
+    }
+
+    private startPump(): void {
+        this.stopPump();
+        if (this._isAdvancing) {
+            return;
+        }
+
+        // Run timers as they become due in real time
+        const next = this.getNextTimer(Number.POSITIVE_INFINITY);
+        if (next) {
+            this._pump = realSetTimeout(() => {
+                this._pump = undefined;
+
+                // Timers scheduled while running the due timers wait for the next pump
+                const now = this.now();
+                const due: IFakeTimer[] = [];
+                this._timers.forEach((timer) => {
+                    if (timer.due <= now) {
+                        due.push(timer);
+                    }
+                });
+                due.sort((a, b) => a.due - b.due || a.id - b.id).forEach(
+                    (timer) => {
+                        if (this._timers.get(timer.id) === timer) {
+                            this.run(timer);
+                        }
+                    }
+                );
+                this.startPump();
+            }, Math.max(next.due - this.now(), 0));
+
+            // Let the process exit if only unreferenced timers are pending
+            let ref = false;
+            this._timers.forEach((timer) => (ref = ref || timer.ref));
+            if (!ref) {
+                this._pump.unref?.();
+            }
+        }
+    }
+
+    private stopPump(): void {
+        if (this._pump) {
+            realClearTimeout(this._pump);
+            this._pump = undefined;
+        }
+    }
+}
+
+/**
+ * @hidden
+ * Lets pending promises and I/O callbacks run.
+ */
+function yieldToPendingWork(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
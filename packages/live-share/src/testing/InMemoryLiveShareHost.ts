@@ -0,0 +1,354 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    ILiveShareHost,
+    IFluidTenantInfo,
+    IFluidContainerInfo,
+    INtpTimeInfo,
+    IRoleVerifier,
+    ContainerState,
+    UserMeetingRole,
+} from "../interfaces";
+import { RoleVerifier } from "../internals";
+import { RetryPolicy } from "../RetryPolicy";
+
+/**
+ * Names of the `ILiveShareHost` methods that faults can be simulated for.
+ */
+export type InMemoryLiveShareHostMethod =
+    | "getFluidTenantInfo"
+    | "getFluidToken"
+    | "getFluidContainerId"
+    | "setFluidContainerId"
+    | "getNtpTime"
+    | "registerClientId"
+    | "getClientRoles";
+
+/**
+ * Faults to simulate when calling an `InMemoryLiveShareHost`.
+ */
+export interface IInMemoryLiveShareHostFaults {
+    /**
+     * Optional. Number of milliseconds to delay each call by. Defaults to `0`.
+     */
+    latency?: number;
+
+    /**
+     * Optional. Probability, between 0 and 1, of a call being rejected. Defaults to `0`.
+     */
+    failureRate?: number;
+}
+
+/**
+ * Options used to configure a client created by `InMemoryLiveShareSession.createHost()`.
+ */
+export interface IInMemoryLiveShareHostOptions {
+    /**
+     * Optional. Roles assigned to the clients user. Defaults to all roles.
+     */
+    roles?: UserMeetingRole[];
+
+    /**
+     * Optional. Number of milliseconds added to the times returned by `getNtpTime()`,
+     * simulating a host whose view of the session clock is skewed. Defaults to `0`.
+     *
+     * @remarks
+     * Only affects `getNtpTime()`. Live events are timestamped by the global timestamp
+     * provider, which is shared by every client running in the same process.
+     */
+    clockSkew?: number;
+
+    /**
+     * Optional. Faults to simulate for every method of the host.
+     */
+    faults?: IInMemoryLiveShareHostFaults;
+
+    /**
+     * Optional. Faults to simulate for individual methods. Overrides `faults`.
+     */
+    methodFaults?: {
+        [method in InMemoryLiveShareHostMethod]?: IInMemoryLiveShareHostFaults;
+    };
+}
+
+/**
+ * Shared state for a Live Share session simulated in memory.
+ *
+ * @remarks
+ * Each simulated user gets their own host from `createHost()`. The hosts share the sessions
+ * container mapping and the roles registered for each client ID, so multiple clients can be
+ * tested in a single process without a DOM.
+ */
+export class InMemoryLiveShareSession {
+    private readonly _clientRoles = new Map<string, UserMeetingRole[]>();
+    private _containerId?: string;
+    private _creator?: InMemoryLiveShareHost;
+
+    /**
+     * Number of milliseconds clients are asked to wait before retrying `getFluidContainerId()`
+     * while another client is creating the container.
+     */
+    public retryAfter = 100;
+
+    /**
+     * ID of the container mapped to the session, if any.
+     */
+    public get containerId(): string | undefined {
+        return this._containerId;
+    }
+
+    /**
+     * Creates a host for a new user joining the session.
+     * @param options Optional. Options used to configure the host.
+     * @returns The created host.
+     */
+    public createHost(
+        options?: IInMemoryLiveShareHostOptions
+    ): InMemoryLiveShareHost {
+        return new InMemoryLiveShareHost(this, options);
+    }
+
+    /**
+     * Returns the roles registered for a client ID.
+     * @param clientId ID of the client to lookup.
+     */
+    public getClientRoles(clientId: string): UserMeetingRole[] | undefined {
+        return this._clientRoles.get(clientId);
+    }
+
+    /**
+     * Assigns roles to a client ID.
+     *
+     * @remarks
+     * Can be used to assign roles to clients that aren't connected through a host, like the
+     * mock runtimes used in unit tests.
+     * @param clientId ID of the client to assign roles to.
+     * @param roles Roles to assign.
+     */
+    public setClientRoles(clientId: string, roles: UserMeetingRole[]): void {
+        this._clientRoles.set(clientId, roles);
+    }
+
+    /**
+     * @hidden
+     */
+    public lookupContainer(host: InMemoryLiveShareHost): IFluidContainerInfo {
+        if (this._containerId) {
+            return {
+                containerState: ContainerState.alreadyExists,
+                containerId: this._containerId,
+                shouldCreate: false,
+                retryAfter: 0,
+            };
+        } else if (!this._creator || this._creator === host) {
+            this._creator = host;
+            return {
+                containerState: ContainerState.notFound,
+                containerId: undefined,
+                shouldCreate: true,
+                retryAfter: 0,
+            };
+        } else {
+            return {
+                containerState: ContainerState.notFound,
+                containerId: undefined,
+                shouldCreate: false,
+                retryAfter: this.retryAfter,
+            };
+        }
+    }
+
+    /**
+     * @hidden
+     */
+    public saveContainer(containerId: string): IFluidContainerInfo {
+        if (this._containerId && this._containerId != containerId) {
+            return {
+                containerState: ContainerState.conflict,
+                containerId: this._containerId,
+                shouldCreate: false,
+                retryAfter: 0,
+            };
+        }
+
+        this._containerId = containerId;
+        this._creator = undefined;
+        return {
+            containerState: ContainerState.added,
+            containerId: containerId,
+            shouldCreate: false,
+            retryAfter: 0,
+        };
+    }
+}
+
+/**
+ * Live Share Host implementation for a single user of an `InMemoryLiveShareSession`.
+ *
+ * @remarks
+ * Latency, failures, and clock skew can be simulated per user and per method. Hosts are
+ * created using `InMemoryLiveShareSession.createHost()`.
+ */
+export class InMemoryLiveShareHost implements ILiveShareHost {
+    private readonly _session: InMemoryLiveShareSession;
+    private readonly _failNext = new Map<InMemoryLiveShareHostMethod, number>();
+    private readonly _clientIds = new Set<string>();
+
+    /**
+     * Options used to configure the host. Changes apply to subsequent calls.
+     */
+    public readonly options: IInMemoryLiveShareHostOptions;
+
+    /**
+     * @hidden
+     */
+    constructor(
+        session: InMemoryLiveShareSession,
+        options?: IInMemoryLiveShareHostOptions
+    ) {
+        this._session = session;
+        this.options = Object.assign({}, options);
+    }
+
+    /**
+     * The session the host belongs to.
+     */
+    public get session(): InMemoryLiveShareSession {
+        return this._session;
+    }
+
+    /**
+     * Roles assigned to the hosts user.
+     *
+     * @remarks
+     * Changing the roles updates the roles of any client IDs already registered by the host.
+     */
+    public get roles(): UserMeetingRole[] {
+        return (
+            this.options.roles ?? [
+                UserMeetingRole.organizer,
+                UserMeetingRole.presenter,
+                UserMeetingRole.attendee,
+            ]
+        );
+    }
+
+    public set roles(value: UserMeetingRole[]) {
+        this.options.roles = value;
+        this._clientIds.forEach((clientId) =>
+            this._session.setClientRoles(clientId, value)
+        );
+    }
+
+    /**
+     * Causes the next calls to a method to fail.
+     * @param method Name of the method to fail.
+     * @param count Optional. Number of calls to fail. Defaults to `1`.
+     */
+    public failNext(method: InMemoryLiveShareHostMethod, count = 1): void {
+        this._failNext.set(method, (this._failNext.get(method) ?? 0) + count);
+    }
+
+    /**
+     * Creates a role verifier that looks up roles using the host.
+     * @param retryPolicy Optional. Policy used to retry failed lookups.
+     */
+    public createRoleVerifier(retryPolicy?: RetryPolicy): IRoleVerifier {
+        return new RoleVerifier(this, retryPolicy);
+    }
+
+    public getFluidTenantInfo(): Promise<IFluidTenantInfo> {
+        return this.call("getFluidTenantInfo", () => ({
+            tenantId: "local",
+            ordererEndpoint: "http://localhost:7070",
+            storageEndpoint: "http://localhost:7070",
+            serviceEndpoint: "http://localhost:7070",
+        }));
+    }
+
+    public getFluidToken(containerId?: string): Promise<string> {
+        return this.call("getFluidToken", () => `test-token`);
+    }
+
+    public getFluidContainerId(): Promise<IFluidContainerInfo> {
+        return this.call("getFluidContainerId", () =>
+            this._session.lookupContainer(this)
+        );
+    }
+
+    public setFluidContainerId(
+        containerId: string
+    ): Promise<IFluidContainerInfo> {
+        return this.call("setFluidContainerId", () =>
+            this._session.saveContainer(containerId)
+        );
+    }
+
+    public getNtpTime(): Promise<INtpTimeInfo> {
+        return this.call("getNtpTime", () => {
+            const now = new Date(
+                new Date().getTime() + (this.options.clockSkew ?? 0)
+            );
+            return {
+                ntpTime: now.toUTCString(),
+                ntpTimeInUTC: now.getTime(),
+            };
+        });
+    }
+
+    public registerClientId(clientId: string): Promise<UserMeetingRole[]> {
+        return this.call("registerClientId", () => {
+            this._clientIds.add(clientId);
+            this._session.setClientRoles(clientId, this.roles);
+            return this.roles;
+        });
+    }
+
+    public getClientRoles(
+        clientId: string
+    ): Promise<UserMeetingRole[] | undefined> {
+        return this.call("getClientRoles", () =>
+            this._session.getClientRoles(clientId)
+        );
+    }
+
+    private call<TResult>(
+        method: InMemoryLiveShareHostMethod,
+        fnResult: () => TResult
+    ): Promise<TResult> {
+        const faults = Object.assign(
+            {},
+            this.options.faults,
+            this.options.methodFaults?.[method]
+        );
+        const failures = this._failNext.get(method) ?? 0;
+        let fail = false;
+        if (failures > 0) {
+            this._failNext.set(method, failures - 1);
+            fail = true;
+        } else if (faults.failureRate) {
+            fail = Math.random() < faults.failureRate;
+        }
+
+        return new Promise((resolve, reject) => {
+            setTimeout(() => {
+                if (fail) {
+                    reject(
+                        new Error(
+                            `InMemoryLiveShareHost: simulated failure calling ${method}()`
+                        )
+                    );
+                } else {
+                    try {
+                        resolve(fnResult());
+                    } catch (err: any) {
+                        reject(err);
+                    }
+                }
+            }, faults.latency ?? 0);
+        });
+    }
+}
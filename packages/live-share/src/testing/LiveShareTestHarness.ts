@@ -0,0 +1,366 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    AzureContainerServices,
+    ITelemetryBaseLogger,
+} from "@fluidframework/azure-client";
+import { ContainerSchema, IFluidContainer } from "@fluidframework/fluid-static";
+import { LocalDeltaConnectionServer } from "@fluidframework/server-local-server";
+import {
+    IInMemoryLiveShareHostOptions,
+    InMemoryLiveShareHost,
+    InMemoryLiveShareSession,
+} from "./InMemoryLiveShareHost";
+import {
+    IRoleVerifier,
+    ITimestampProvider,
+    LiveConnectionState,
+} from "../interfaces";
+import { waitForDelay } from "../internals";
+import { LiveEvent } from "../LiveEvent";
+import { LiveShareClient } from "../LiveShareClient";
+import { FakeClock } from "./FakeClock";
+import { LocalServiceAdapter } from "./LocalServiceAdapter";
+
+/**
+ * Options used to configure a `LiveShareTestHarness`.
+ */
+export interface ILiveShareTestHarnessOptions {
+    /**
+     * Optional. If true, the roles assigned to each clients host are verified when live
+     * objects receive events. Defaults to `false`, which allows all roles.
+     */
+    readonly verifyRoles?: boolean;
+
+    /**
+     * Optional. Number of milliseconds `waitForConvergence()` waits by default. Defaults to
+     * `5000`.
+     */
+    readonly convergenceTimeout?: number;
+
+    /**
+     * Optional. A logger instance to receive diagnostic messages.
+     */
+    readonly logger?: ITelemetryBaseLogger;
+}
+
+/**
+ * A client joined to the container of a `LiveShareTestHarness`.
+ */
+export interface ILiveShareTestClient {
+    /**
+     * The clients `LiveShareClient` instance.
+     */
+    readonly client: LiveShareClient;
+
+    /**
+     * Host the client uses. Can be used to change the clients roles or simulate faults.
+     */
+    readonly host: InMemoryLiveShareHost;
+
+    /**
+     * Container the client joined.
+     */
+    readonly container: IFluidContainer;
+
+    /**
+     * Services returned for the container.
+     */
+    readonly services: AzureContainerServices;
+
+    /**
+     * If true the client created the container.
+     */
+    readonly created: boolean;
+}
+
+/**
+ * Runs multiple `LiveShareClient` instances against an in-process Fluid service.
+ *
+ * @remarks
+ * Each joined client gets its own host from a shared `InMemoryLiveShareSession` and loads
+ * the sessions container from a `LocalServiceAdapter`, so full container scenarios can be
+ * tested in Node without a Fluid server or network connection.
+ *
+ * While the harness is in use it replaces the global `Date` and timer functions with the
+ * harness clock. The clock follows real time but can be moved forward using `advanceTime()`,
+ * which runs any timers that become due in order. All clients share the harness clock, so the
+ * `clockSkew` host option only affects the times returned by each hosts `getNtpTime()`.
+ */
+export class LiveShareTestHarness {
+    private readonly _schema: ContainerSchema;
+    private readonly _options: ILiveShareTestHarnessOptions;
+    private readonly _session = new InMemoryLiveShareSession();
+    private readonly _server = LocalDeltaConnectionServer.create();
+    private readonly _clients: ILiveShareTestClient[] = [];
+    private readonly _clock = new FakeClock();
+    private readonly _timestampProvider = new HarnessTimestampProvider();
+    private readonly _previousTimestampProvider: ITimestampProvider;
+    private readonly _roleVerifier?: IRoleVerifier;
+    private readonly _previousRoleVerifier: IRoleVerifier;
+    private _isDisposed = false;
+
+    /**
+     * Creates a new `LiveShareTestHarness` instance.
+     * @param schema Schema of the container clients join.
+     * @param options Optional. Options used to configure the harness.
+     */
+    constructor(
+        schema: ContainerSchema,
+        options?: ILiveShareTestHarnessOptions
+    ) {
+        this._schema = schema;
+        this._options = Object.assign(
+            {} as ILiveShareTestHarnessOptions,
+            options
+        );
+
+        // Install harness clock and role verifier
+        this._clock.install();
+        this._previousTimestampProvider = LiveEvent.getTimestampProvider();
+        this._previousRoleVerifier = LiveEvent.getRoleVerifier();
+        LiveEvent.setTimestampProvider(this._timestampProvider);
+        if (this._options.verifyRoles) {
+            this._roleVerifier = this._session
+                .createHost()
+                .createRoleVerifier();
+            LiveEvent.setRoleVerifier(this._roleVerifier);
+        }
+    }
+
+    /**
+     * Session shared by the hosts of all clients.
+     */
+    public get session(): InMemoryLiveShareSession {
+        return this._session;
+    }
+
+    /**
+     * Clients that have joined the container.
+     */
+    public get clients(): ILiveShareTestClient[] {
+        return this._clients.slice();
+    }
+
+    /**
+     * Current time of the harness clock.
+     */
+    public get now(): number {
+        return this._clock.now();
+    }
+
+    /**
+     * Creates a new client and joins it to the container.
+     *
+     * @remarks
+     * The first client to join creates the container.
+     * @param hostOptions Optional. Options used to configure the clients host.
+     * @param onContainerFirstCreated Optional. Callback that's called if the client creates
+     * the container.
+     * @returns The joined client.
+     */
+    public async join(
+        hostOptions?: IInMemoryLiveShareHostOptions,
+        onContainerFirstCreated?: (container: IFluidContainer) => void
+    ): Promise<ILiveShareTestClient> {
+        if (this._isDisposed) {
+            throw new Error(`LiveShareTestHarness: harness has been disposed.`);
+        }
+
+        const host = this._session.createHost(hostOptions);
+        const client = new LiveShareClient(host, {
+            adapter: new LocalServiceAdapter(
+                this._server,
+                this._options.logger
+            ),
+            logger: this._options.logger,
+        });
+        const { container, services, created } = await client.joinContainer(
+            this._schema,
+            onContainerFirstCreated
+        );
+
+        // Register the clients IDs with its host
+        if (this._roleVerifier) {
+            const register = () => {
+                const connections =
+                    services.audience.getMyself()?.connections ?? [];
+                connections.forEach((connection) =>
+                    host
+                        .registerClientId(connection.id)
+                        .catch((err) => console.error(err.toString()))
+                );
+            };
+            client.on("connected", register);
+            register();
+        }
+
+        const joined = { client, host, container, services, created };
+        this._clients.push(joined);
+        return joined;
+    }
+
+    /**
+     * Joins several clients to the container.
+     *
+     * @remarks
+     * The first client joins before the others so that the container only gets created once.
+     * @param count Number of clients to join.
+     * @param hostOptions Optional. Options used to configure each clients host.
+     * @param onContainerFirstCreated Optional. Callback that's called when the container is
+     * first created.
+     * @returns The joined clients.
+     */
+    public async joinClients(
+        count: number,
+        hostOptions?: IInMemoryLiveShareHostOptions,
+        onContainerFirstCreated?: (container: IFluidContainer) => void
+    ): Promise<ILiveShareTestClient[]> {
+        const clients: ILiveShareTestClient[] = [];
+        if (count > 0) {
+            clients.push(await this.join(hostOptions, onContainerFirstCreated));
+        }
+
+        const pending: Promise<ILiveShareTestClient>[] = [];
+        for (let i = 1; i < count; i++) {
+            pending.push(this.join(hostOptions));
+        }
+        clients.push(...(await Promise.all(pending)));
+        return clients;
+    }
+
+    /**
+     * Waits until every client is connected.
+     * @param timeout Optional. Number of milliseconds to wait. Defaults to the harness
+     * `convergenceTimeout`.
+     */
+    public async waitForConnected(timeout?: number): Promise<void> {
+        const connected = await this.waitUntil(
+            () =>
+                this._clients.every(
+                    (client) =>
+                        client.client.connectionState ==
+                        LiveConnectionState.connected
+                ),
+            timeout
+        );
+        if (!connected) {
+            throw new Error(
+                `LiveShareTestHarness: clients didn't connect within the timeout.`
+            );
+        }
+    }
+
+    /**
+     * Waits until a value read from every client is the same.
+     *
+     * @remarks
+     * Values are compared after being converted to JSON.
+     * @template TValue Type of value being compared.
+     * @param fnValue Function called to read the value from a client.
+     * @param timeout Optional. Number of milliseconds to wait. Defaults to the harness
+     * `convergenceTimeout`.
+     * @returns The value all clients converged on.
+     */
+    public async waitForConvergence<TValue>(
+        fnValue: (client: ILiveShareTestClient) => TValue,
+        timeout?: number
+    ): Promise<TValue> {
+        let current: TValue[] = [];
+        let values: string[] = [];
+        const converged = await this.waitUntil(() => {
+            current = this._clients.map(fnValue);
+            values = current.map((value) => JSON.stringify(value));
+            return values.every((value) => value === values[0]);
+        }, timeout);
+        if (!converged) {
+            throw new Error(
+                `LiveShareTestHarness: clients didn't converge within the timeout. Values: ${values.join(
+                    ", "
+                )}`
+            );
+        }
+
+        return current[0];
+    }
+
+    /**
+     * Moves the harness clock forward.
+     *
+     * @remarks
+     * Timers that become due are run in the order they're due, letting any work they start
+     * run before the next timer. This drives the periodic updates of live objects, presence
+     * expiration, and timer ticks forward without waiting for them in real time.
+     * @param ms Number of milliseconds to advance the clock by.
+     */
+    public async advanceTime(ms: number): Promise<void> {
+        await this._clock.advance(ms);
+    }
+
+    /**
+     * Disposes of all clients and the in-process service.
+     *
+     * @remarks
+     * Restores the global `Date` and timer functions, along with the timestamp provider and
+     * role verifier that were installed before the harness was created.
+     */
+    public async dispose(): Promise<void> {
+        if (!this._isDisposed) {
+            this._isDisposed = true;
+            this._clients.forEach((client) => client.client.dispose());
+            this._clients.splice(0);
+            if (LiveEvent.getTimestampProvider() === this._timestampProvider) {
+                LiveEvent.setTimestampProvider(this._previousTimestampProvider);
+            }
+            if (
+                this._roleVerifier &&
+                LiveEvent.getRoleVerifier() === this._roleVerifier
+            ) {
+                LiveEvent.setRoleVerifier(this._previousRoleVerifier);
+            }
+            await this._server.close();
+            this._clock.uninstall();
+        }
+    }
+
+    private async waitUntil(
+        fnDone: () => boolean,
+        timeout?: number
+    ): Promise<boolean> {
+        const end =
+            new Date().getTime() +
+            (timeout ?? this._options.convergenceTimeout ?? 5000);
+        while (!fnDone()) {
+            if (new Date().getTime() >= end) {
+                return false;
+            }
+
+            await waitForDelay(10);
+        }
+
+        return true;
+    }
+}
+
+/**
+ * @hidden
+ * Timestamp provider that follows the harness clock.
+ */
+class HarnessTimestampProvider implements ITimestampProvider {
+    private _lastTimeSent = 0;
+
+    public getTimestamp(): number {
+        // Never return the same timestamp twice
+        return (this._lastTimeSent = Math.max(
+            new Date().getTime(),
+            this._lastTimeSent + 1
+        ));
+    }
+
+    public getMaxTimestampError(): number {
+        return 0;
+    }
+}
@@ -0,0 +1,158 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    AzureAudience,
+    AzureContainerServices,
+    ITelemetryBaseLogger,
+} from "@fluidframework/azure-client";
+import { AttachState, IContainer } from "@fluidframework/container-definitions";
+import { Loader } from "@fluidframework/container-loader";
+import {
+    ContainerSchema,
+    DOProviderContainerRuntimeFactory,
+    FluidContainer,
+    IFluidContainer,
+    RootDataObject,
+} from "@fluidframework/fluid-static";
+import {
+    createLocalResolverCreateNewRequest,
+    LocalDocumentServiceFactory,
+    LocalResolver,
+} from "@fluidframework/local-driver";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import {
+    ILocalDeltaConnectionServer,
+    LocalDeltaConnectionServer,
+} from "@fluidframework/server-local-server";
+import { v4 } from "uuid";
+import { ILiveShareServiceAdapter } from "../interfaces";
+
+/**
+ * Service adapter that creates and loads containers using an in-process Fluid service.
+ *
+ * @remarks
+ * Containers are stored in memory, so no Fluid server or network connection is needed. Every
+ * client that should see the same containers needs an adapter that shares the same `server`.
+ * Intended for testing purposes only.
+ */
+export class LocalServiceAdapter
+    implements ILiveShareServiceAdapter<AzureContainerServices>
+{
+    private readonly _server: ILocalDeltaConnectionServer;
+    private readonly _documentServiceFactory: LocalDocumentServiceFactory;
+    private readonly _urlResolver = new LocalResolver();
+    private readonly _logger?: ITelemetryBaseLogger;
+
+    /**
+     * Creates a new `LocalServiceAdapter` instance.
+     * @param server Optional. In-process service to connect to. A new service is created if
+     * not specified.
+     * @param logger Optional. A logger instance to receive diagnostic messages.
+     */
+    constructor(
+        server?: ILocalDeltaConnectionServer,
+        logger?: ITelemetryBaseLogger
+    ) {
+        this._server = server ?? LocalDeltaConnectionServer.create();
+        this._documentServiceFactory = new LocalDocumentServiceFactory(
+            this._server
+        );
+        this._logger = logger;
+    }
+
+    public readonly isLocal = true;
+
+    /**
+     * The in-process service the adapter connects to.
+     */
+    public get server(): ILocalDeltaConnectionServer {
+        return this._server;
+    }
+
+    public async createContainer(containerSchema: ContainerSchema): Promise<{
+        container: IFluidContainer;
+        services: AzureContainerServices;
+    }> {
+        const loader = this.createLoader(containerSchema);
+        const container = await loader.createDetachedContainer({
+            package: "no-dynamic-package",
+            config: {},
+        });
+        const rootDataObject = await requestFluidObject<RootDataObject>(
+            container,
+            "/"
+        );
+        return {
+            container: new LocalFluidContainer(container, rootDataObject),
+            services: { audience: new AzureAudience(container) },
+        };
+    }
+
+    public async getContainer(
+        containerId: string,
+        containerSchema: ContainerSchema
+    ): Promise<{
+        container: IFluidContainer;
+        services: AzureContainerServices;
+    }> {
+        const loader = this.createLoader(containerSchema);
+        const container = await loader.resolve({
+            url: `http://localhost:3000/${containerId}`,
+        });
+        const rootDataObject = await requestFluidObject<RootDataObject>(
+            container,
+            "/"
+        );
+        return {
+            container: new FluidContainer(container, rootDataObject),
+            services: { audience: new AzureAudience(container) },
+        };
+    }
+
+    private createLoader(containerSchema: ContainerSchema): Loader {
+        const runtimeFactory = new DOProviderContainerRuntimeFactory(
+            containerSchema
+        );
+        return new Loader({
+            urlResolver: this._urlResolver,
+            documentServiceFactory: this._documentServiceFactory,
+            codeLoader: {
+                load: async () => ({
+                    module: { fluidExport: runtimeFactory },
+                    details: { package: "no-dynamic-package", config: {} },
+                }),
+            },
+            logger: this._logger,
+        });
+    }
+}
+
+/**
+ * @hidden
+ * Container that attaches itself to the local service using a new ID.
+ */
+class LocalFluidContainer extends FluidContainer {
+    constructor(
+        private readonly _container: IContainer,
+        rootDataObject: RootDataObject
+    ) {
+        super(_container, rootDataObject);
+    }
+
+    public async attach(): Promise<string> {
+        if (this.attachState !== AttachState.Detached) {
+            throw new Error(
+                `LocalServiceAdapter: cannot attach container that isn't detached.`
+            );
+        }
+
+        const containerId = v4();
+        await this._container.attach(
+            createLocalResolverCreateNewRequest(containerId)
+        );
+        return containerId;
+    }
+}
@@ -0,0 +1,8 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+export * from "./InMemoryLiveShareHost";
+export * from "./LiveShareTestHarness";
+export * from "./LocalServiceAdapter";